@@ -0,0 +1,47 @@
+import type { FormField } from "~/components/form/FormFactory";
+import { cn } from "~/lib/utils";
+import { formatDateTime, formatNumber, type Locale } from "~/lib/i18n";
+import type { ChatTurn } from "~/lib/chat";
+
+interface ChatTranscriptProps {
+  turns: ChatTurn[];
+  // When given (owner view), each message shows its time and what was extracted from it
+  fields?: FormField[];
+  locale?: Locale;
+}
+
+const showValue = (value: unknown) =>
+  Array.isArray(value) ? value.join(', ') : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+export function ChatTranscript({ turns, fields, locale }: ChatTranscriptProps) {
+  const label = (key: string) => fields?.find(f => f.key === key)?.label ?? key;
+
+  return (
+    <div className="space-y-3">
+      {turns.map((turn, index) => (
+        <div key={index} className={cn("flex flex-col", turn.role === 'user' ? "items-end" : "items-start")}>
+          <div
+            className={cn(
+              "max-w-[80%] rounded-lg px-3 py-2 text-sm whitespace-pre-line",
+              turn.role === 'user' ? "bg-primary text-primary-foreground" : "bg-gray-100 text-gray-900"
+            )}
+          >
+            {turn.text}
+          </div>
+          {fields && (
+            <div className="max-w-[80%] mt-1 text-xs text-gray-500 space-y-0.5">
+              {Object.entries(turn.answers ?? {}).map(([key, value]) => (
+                <p key={key}>
+                  {label(key)}: {showValue(value)}
+                  {turn.confidence?.[key] !== undefined && ` (${formatNumber(turn.confidence[key] * 100, locale, 0)}%)`}
+                </p>
+              ))}
+              {turn.skipped && <p>Pulou: {label(turn.skipped)}</p>}
+              <p>{formatDateTime(turn.at, locale)}</p>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { Timer, TrendingDown } from "lucide-react";
+import { Card } from "~/components/ui/card";
+import type { FieldDropOff } from "~/lib/activity";
+import { formatNumber, type Locale } from "~/lib/i18n";
+import { cn } from "~/lib/utils";
+
+interface DropOffFunnelProps {
+  rows: FieldDropOff[];
+  // Responses started, the 100% of each bar
+  total: number;
+  locale: Locale;
+}
+
+const formatSeconds = (seconds: number, locale: Locale) =>
+  seconds < 60 ? `${formatNumber(seconds, locale, 0)}s` : `${formatNumber(seconds / 60, locale, 1)} min`;
+
+export function DropOffFunnel({ rows, total, locale }: DropOffFunnelProps) {
+  const mostDropped = Math.max(0, ...rows.map(row => row.dropped));
+  const slowest = Math.max(0, ...rows.map(row => row.medianSeconds ?? 0));
+
+  return (
+    <Card className="p-4 mb-6 space-y-3">
+      <div>
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <TrendingDown className="w-5 h-5 text-red-500" />
+          Funil de abandono
+        </h2>
+        <p className="text-sm text-gray-600">
+          Quantos respondentes chegaram a cada pergunta, onde quem abandonou parou e quanto tempo cada pergunta leva (mediana)
+        </p>
+      </div>
+      <div className="space-y-2">
+        {rows.map((row) => (
+          <div key={row.field.key} className="grid grid-cols-[minmax(0,12rem)_1fr_auto] items-center gap-3 text-sm">
+            <span className="truncate" title={row.field.label}>{row.field.label}</span>
+            <div className="h-3 rounded bg-gray-100 overflow-hidden">
+              <div
+                className="h-full bg-primary"
+                style={{ width: `${total > 0 ? (row.reached / total) * 100 : 0}%` }}
+              />
+            </div>
+            <div className="flex items-center gap-3 text-xs text-gray-600 whitespace-nowrap">
+              <span className="w-12 text-right">{row.reached}/{total}</span>
+              <span className={cn("w-24", row.dropped > 0 && row.dropped === mostDropped && "font-semibold text-red-600")}>
+                {row.dropped} pararam aqui
+              </span>
+              <span
+                className={cn(
+                  "w-20 flex items-center gap-1",
+                  row.medianSeconds !== null && row.medianSeconds === slowest && slowest > 0 && "font-semibold text-amber-700"
+                )}
+              >
+                <Timer className="w-3 h-3" />
+                {row.medianSeconds !== null ? formatSeconds(row.medianSeconds, locale) : '–'}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
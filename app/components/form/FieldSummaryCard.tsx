@@ -0,0 +1,78 @@
+import { Card } from "~/components/ui/card";
+import { formatNumber, type Locale } from "~/lib/i18n";
+import type { Bucket, FieldSummary } from "~/lib/summaries";
+
+interface FieldSummaryCardProps {
+  summary: FieldSummary;
+  locale: Locale;
+}
+
+// Horizontal bars; with `total`, each bar also shows its share of it
+function BarList({ buckets, total, locale }: { buckets: Bucket[]; total?: number; locale: Locale }) {
+  const maxCount = Math.max(1, ...buckets.map(b => b.count));
+
+  return (
+    <div className="space-y-1">
+      {buckets.map((bucket) => (
+        <div key={bucket.label} className="flex items-center gap-2 text-xs">
+          <span className="w-24 text-right text-gray-600 truncate" title={bucket.label}>{bucket.label}</span>
+          <div className="flex-1 h-3 rounded bg-gray-100 overflow-hidden">
+            <div className="h-full bg-primary" style={{ width: `${(bucket.count / maxCount) * 100}%` }} />
+          </div>
+          <span className="w-16 text-gray-600">
+            {bucket.count}
+            {total ? ` (${formatNumber((bucket.count / total) * 100, locale, 0)}%)` : ''}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const Stat = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <p>
+    {label}: <span className="font-bold text-gray-900">{value}</span>
+  </p>
+);
+
+export function FieldSummaryCard({ summary, locale }: FieldSummaryCardProps) {
+  const number = (value: number | null) => (value !== null ? formatNumber(value, locale, 1) : '–');
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex justify-between items-start gap-4">
+        <h3 className="font-semibold">{summary.field.label}</h3>
+        <div className="text-right text-sm text-gray-600 shrink-0">
+          {summary.kind === 'scale' && (
+            <>
+              {summary.scale.nps !== undefined && <Stat label="NPS" value={summary.scale.nps} />}
+              <Stat label="Média" value={number(summary.scale.average)} />
+            </>
+          )}
+          {summary.kind === 'number' && (
+            <>
+              <Stat label="Média" value={number(summary.mean)} />
+              <Stat label="Mediana" value={number(summary.median)} />
+            </>
+          )}
+          {summary.kind === 'date' && summary.earliest && (
+            <Stat label="Período" value={summary.earliest === summary.latest ? summary.earliest : `${summary.earliest} – ${summary.latest}`} />
+          )}
+          <p>{summary.count} resposta(s)</p>
+        </div>
+      </div>
+
+      {summary.kind === 'scale' && <BarList buckets={summary.scale.distribution} locale={locale} />}
+      {summary.kind === 'choice' && <BarList buckets={summary.distribution} total={summary.count} locale={locale} />}
+      {summary.kind === 'number' && (
+        <>
+          {summary.min !== null && (
+            <p className="text-xs text-gray-600">Mínimo {number(summary.min)} · Máximo {number(summary.max)}</p>
+          )}
+          <BarList buckets={summary.histogram} locale={locale} />
+        </>
+      )}
+      {summary.kind === 'date' && <BarList buckets={summary.distribution} locale={locale} />}
+    </Card>
+  );
+}
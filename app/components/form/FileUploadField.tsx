@@ -0,0 +1,156 @@
+import { useRef, useState } from "react";
+import { Upload, X, FileIcon } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Progress } from "~/components/ui/progress";
+import { cn } from "~/lib/utils";
+import { isAcceptedType, uploadResponseFile, type FileReference } from "~/lib/storage";
+import { createTranslator, type Locale } from "~/lib/i18n";
+import type { DraftKey } from "~/lib/drafts";
+import type { FormField } from "./FormFactory";
+
+interface FileUploadFieldProps {
+  field: FormField;
+  value: FileReference[];
+  onChange: (value: FileReference[]) => void;
+  draft?: DraftKey;
+  error?: string;
+  locale?: Locale;
+}
+
+interface PendingUpload {
+  id: string;
+  name: string;
+  progress: number;
+}
+
+export function FileUploadField({ field, value, onChange, draft, error, locale }: FileUploadFieldProps) {
+  const t = createTranslator(locale);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  // Uploads finish asynchronously, so the latest list is kept outside render state
+  const filesRef = useRef<FileReference[]>(value);
+  filesRef.current = value;
+
+  const accept = field.file?.accept;
+  const maxFiles = field.file?.maxFiles ?? 1;
+  const maxSizeMB = field.file?.maxSizeMB;
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || !draft) return;
+    setUploadError(null);
+
+    const files = Array.from(fileList).slice(0, Math.max(0, maxFiles - value.length - uploads.length));
+    if (files.length < fileList.length) {
+      setUploadError(t('form.fileTooMany', { count: maxFiles }));
+    }
+
+    await Promise.all(files.map(async (file) => {
+      if (!isAcceptedType(file, accept)) {
+        setUploadError(t('form.fileTypeRejected', { name: file.name }));
+        return;
+      }
+      if (maxSizeMB && file.size > maxSizeMB * 1024 * 1024) {
+        setUploadError(t('form.fileTooLarge', { name: file.name, size: maxSizeMB }));
+        return;
+      }
+
+      const id = crypto.randomUUID();
+      setUploads(prev => [...prev, { id, name: file.name, progress: 0 }]);
+      try {
+        const reference = await uploadResponseFile(draft, field.key, file, (progress) => {
+          setUploads(prev => prev.map(u => u.id === id ? { ...u, progress } : u));
+        });
+        filesRef.current = [...filesRef.current, reference];
+        onChange(filesRef.current);
+      } catch (err) {
+        console.error('Error uploading file:', err);
+        setUploadError(t('form.fileUploadError', { name: file.name }));
+      } finally {
+        setUploads(prev => prev.filter(u => u.id !== id));
+      }
+    }));
+  };
+
+  const removeFile = (path: string) => {
+    onChange(value.filter(f => f.path !== path));
+  };
+
+  if (!draft) {
+    return (
+      <p className="text-sm text-gray-500 italic">
+        {t('form.filePreviewOnly')}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && inputRef.current?.click()}
+        onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          handleFiles(e.dataTransfer.files);
+        }}
+        className={cn(
+          "flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed p-6 text-sm text-gray-600 cursor-pointer transition-colors",
+          dragging && "border-primary bg-primary/5",
+          error && "border-red-500"
+        )}
+      >
+        <Upload className="w-6 h-6" />
+        <span>{t('form.fileDrop')}</span>
+        <span className="text-xs text-gray-500">
+          {[
+            accept?.length ? accept.join(', ') : null,
+            maxSizeMB ? t('form.fileUpTo', { size: maxSizeMB }) : null,
+            t('form.fileMaxCount', { count: maxFiles }),
+          ].filter(Boolean).join(' · ')}
+        </span>
+        <input
+          ref={inputRef}
+          id={field.key}
+          type="file"
+          className="hidden"
+          accept={accept?.join(',')}
+          multiple={maxFiles > 1}
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {uploads.map((upload) => (
+        <div key={upload.id} className="space-y-1">
+          <div className="flex justify-between text-xs text-gray-600">
+            <span>{upload.name}</span>
+            <span>{upload.progress}%</span>
+          </div>
+          <Progress value={upload.progress} />
+        </div>
+      ))}
+
+      {value.map((file) => (
+        <div key={file.path} className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+          <span className="flex items-center gap-2 truncate">
+            <FileIcon className="w-4 h-4 shrink-0" />
+            {file.name}
+          </span>
+          <Button type="button" variant="ghost" size="sm" onClick={() => removeFile(file.path)}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      {uploadError && <p className="text-sm text-red-500">{uploadError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,393 @@
+import { useState } from "react";
+import { ChevronDown, ChevronUp, GripVertical, Plus, Trash2 } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Card } from "~/components/ui/card";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Badge } from "~/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+import { cn } from "~/lib/utils";
+import {
+  addField,
+  changeFieldType,
+  FIELD_TYPE_LABELS,
+  moveField,
+  OPTION_TYPES,
+  removeField,
+  renameField,
+  TEXT_TYPES,
+  toFieldKey,
+  uniqueKey,
+  updateField,
+  type FieldType,
+} from "~/lib/fields";
+import { isScaleField } from "~/lib/scales";
+import type { FormField, FormSchema } from "./FormFactory";
+
+interface FormEditorProps {
+  schema: FormSchema;
+  onChange: (schema: FormSchema) => void;
+}
+
+const FIELD_TYPES = Object.keys(FIELD_TYPE_LABELS) as FieldType[];
+
+// Empty inputs clear the setting instead of storing 0
+const parseOptionalNumber = (value: string) => value === '' ? undefined : Number(value);
+
+export function FormEditor({ schema, onChange }: FormEditorProps) {
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [newType, setNewType] = useState<FieldType>('text');
+
+  const onAddField = () => {
+    const next = addField(schema, newType);
+    onChange(next);
+    setExpandedKey(next.fields[next.fields.length - 1].key);
+  };
+
+  const onRemoveField = (field: FormField) => {
+    if (!window.confirm(`Remover o campo "${field.label}"?`)) return;
+    onChange(removeField(schema, field.key));
+  };
+
+  const onRenameField = (from: string, to: string) => {
+    onChange(renameField(schema, from, to));
+    if (expandedKey === from) setExpandedKey(to);
+  };
+
+  const onDrop = (index: number) => {
+    if (dragIndex !== null) onChange(moveField(schema, dragIndex, index));
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <h3 className="text-lg font-semibold">Campos</h3>
+
+      {schema.fields.length === 0 && (
+        <p className="text-sm text-gray-600">Nenhum campo ainda. Adicione o primeiro abaixo.</p>
+      )}
+
+      <ul className="space-y-2">
+        {schema.fields.map((field, index) => (
+          <li
+            key={field.key}
+            onDragOver={(e) => {
+              if (dragIndex === null) return;
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              onDrop(index);
+            }}
+            className={cn(
+              "rounded-md border bg-white",
+              dragIndex === index && "opacity-50",
+              dropIndex === index && dragIndex !== index && "border-primary"
+            )}
+          >
+            <div className="flex items-center gap-2 p-2">
+              <span
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDragIndex(index);
+                }}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setDropIndex(null);
+                }}
+                className="cursor-grab text-gray-400"
+                aria-hidden
+              >
+                <GripVertical className="w-4 h-4" />
+              </span>
+              <button
+                type="button"
+                className="flex-1 flex items-center gap-2 text-left text-sm min-w-0"
+                onClick={() => setExpandedKey(expandedKey === field.key ? null : field.key)}
+                aria-expanded={expandedKey === field.key}
+              >
+                <span className="font-medium truncate">{field.label || field.key}</span>
+                {field.required && <span className="text-red-500">*</span>}
+                <Badge variant="secondary">{FIELD_TYPE_LABELS[field.type] ?? field.type}</Badge>
+              </button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(moveField(schema, index, index - 1))}
+                disabled={index === 0}
+                aria-label="Mover para cima"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(moveField(schema, index, index + 1))}
+                disabled={index === schema.fields.length - 1}
+                aria-label="Mover para baixo"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onRemoveField(field)}
+                aria-label={`Remover ${field.label}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {expandedKey === field.key && (
+              <FieldEditor
+                field={field}
+                takenKeys={schema.fields.map(f => f.key).filter(k => k !== field.key)}
+                onChange={(updated) => onChange(updateField(schema, field.key, updated))}
+                onRename={(to) => onRenameField(field.key, to)}
+              />
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex gap-2">
+        <Select value={newType} onValueChange={(val) => setNewType(val as FieldType)}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FIELD_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>{FIELD_TYPE_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" onClick={onAddField}>
+          <Plus className="w-4 h-4 mr-1" />
+          Adicionar campo
+        </Button>
+      </div>
+    </Card>
+  );
+}
+
+interface FieldEditorProps {
+  field: FormField;
+  takenKeys: string[];
+  onChange: (field: FormField) => void;
+  onRename: (key: string) => void;
+}
+
+function FieldEditor({ field, takenKeys, onChange, onRename }: FieldEditorProps) {
+  // The key is committed on blur so typing does not rename the field on every keystroke
+  const [keyDraft, setKeyDraft] = useState(field.key);
+
+  const commitKey = () => {
+    const key = uniqueKey(toFieldKey(keyDraft), takenKeys);
+    setKeyDraft(key);
+    if (key !== field.key) onRename(key);
+  };
+
+  const setValidation = (changes: Partial<NonNullable<FormField['validation']>>) => {
+    onChange({ ...field, validation: { ...field.validation, ...changes } });
+  };
+
+  return (
+    <div className="border-t p-4 space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={`editor-${field.key}-label`}>Rótulo</Label>
+          <Input
+            id={`editor-${field.key}-label`}
+            value={field.label}
+            onChange={(e) => onChange({ ...field, label: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`editor-${field.key}-key`}>Chave</Label>
+          <Input
+            id={`editor-${field.key}-key`}
+            value={keyDraft}
+            onChange={(e) => setKeyDraft(e.target.value)}
+            onBlur={commitKey}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Tipo</Label>
+          <Select value={field.type} onValueChange={(val) => onChange(changeFieldType(field, val as FieldType))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FIELD_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>{FIELD_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`editor-${field.key}-placeholder`}>Placeholder</Label>
+          <Input
+            id={`editor-${field.key}-placeholder`}
+            value={field.placeholder ?? ''}
+            onChange={(e) => onChange({ ...field, placeholder: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`editor-${field.key}-description`}>Descrição</Label>
+        <Input
+          id={`editor-${field.key}-description`}
+          value={field.description ?? ''}
+          onChange={(e) => onChange({ ...field, description: e.target.value || undefined })}
+        />
+      </div>
+
+      {field.type !== 'calculated' && (
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id={`editor-${field.key}-required`}
+            checked={field.required}
+            onCheckedChange={(checked) => onChange({ ...field, required: !!checked })}
+          />
+          <Label htmlFor={`editor-${field.key}-required`}>Obrigatório</Label>
+        </div>
+      )}
+
+      {OPTION_TYPES.includes(field.type) && (
+        <OptionsEditor
+          options={field.options ?? []}
+          onChange={(options) => onChange({ ...field, options })}
+        />
+      )}
+
+      {TEXT_TYPES.includes(field.type) && (
+        <div className="grid gap-4 md:grid-cols-3">
+          <NumberSetting
+            label="Mín. de caracteres"
+            value={field.validation?.minLength}
+            onChange={(minLength) => setValidation({ minLength })}
+          />
+          <NumberSetting
+            label="Máx. de caracteres"
+            value={field.validation?.maxLength}
+            onChange={(maxLength) => setValidation({ maxLength })}
+          />
+          <div className="space-y-2">
+            <Label htmlFor={`editor-${field.key}-pattern`}>Padrão (regex)</Label>
+            <Input
+              id={`editor-${field.key}-pattern`}
+              value={field.validation?.pattern ?? ''}
+              onChange={(e) => setValidation({ pattern: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+      )}
+
+      {field.type === 'number' && (
+        <div className="grid gap-4 md:grid-cols-2">
+          <NumberSetting label="Mínimo" value={field.validation?.min} onChange={(min) => setValidation({ min })} />
+          <NumberSetting label="Máximo" value={field.validation?.max} onChange={(max) => setValidation({ max })} />
+        </div>
+      )}
+
+      {isScaleField(field) && field.type !== 'nps' && (
+        <div className="grid gap-4 md:grid-cols-2">
+          {field.type !== 'rating' && (
+            <NumberSetting
+              label="Mínimo"
+              value={field.scale?.min}
+              onChange={(min) => onChange({ ...field, scale: { ...field.scale, min } })}
+            />
+          )}
+          <NumberSetting
+            label="Máximo"
+            value={field.scale?.max}
+            onChange={(max) => onChange({ ...field, scale: { ...field.scale, max } })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface NumberSettingProps {
+  label: string;
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+}
+
+function NumberSetting({ label, value, onChange }: NumberSettingProps) {
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Input
+        type="number"
+        value={value ?? ''}
+        onChange={(e) => onChange(parseOptionalNumber(e.target.value))}
+      />
+    </div>
+  );
+}
+
+interface OptionsEditorProps {
+  options: Array<{ value: string; label: string }>;
+  onChange: (options: Array<{ value: string; label: string }>) => void;
+}
+
+function OptionsEditor({ options, onChange }: OptionsEditorProps) {
+  const updateOption = (index: number, changes: Partial<{ value: string; label: string }>) => {
+    onChange(options.map((option, i) => i === index ? { ...option, ...changes } : option));
+  };
+
+  const addOption = () => {
+    const label = `Opção ${options.length + 1}`;
+    onChange([...options, { value: uniqueKey(toFieldKey(label), options.map(o => o.value)), label }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Opções</Label>
+      {options.map((option, index) => (
+        <div key={index} className="flex gap-2">
+          <Input
+            value={option.label}
+            onChange={(e) => updateOption(index, { label: e.target.value })}
+            placeholder="Rótulo"
+            aria-label={`Rótulo da opção ${index + 1}`}
+          />
+          <Input
+            value={option.value}
+            onChange={(e) => updateOption(index, { value: e.target.value })}
+            placeholder="Valor"
+            aria-label={`Valor da opção ${index + 1}`}
+            className="w-40"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(options.filter((_, i) => i !== index))}
+            disabled={options.length <= 1}
+            aria-label={`Remover opção ${index + 1}`}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={addOption}>
+        <Plus className="w-4 h-4 mr-1" />
+        Adicionar opção
+      </Button>
+    </div>
+  );
+}
@@ -8,11 +8,42 @@ import { Checkbox } from "~/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "~/components/ui/radio-group";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
 import { Progress } from "~/components/ui/progress";
-import { supabase } from "~/lib/supabaseClient";
+import { getVisibleFields, stripHiddenAnswers } from "~/lib/conditions";
+import { getNextSectionId, getRemainingPath, getSectionFields, getSections } from "~/lib/sections";
+import { validateAnswers } from "~/lib/validation";
+import { withCalculatedValues } from "~/lib/expressions";
+import { resolveFieldTemplates, resolveTemplate } from "~/lib/templates";
+import { createTranslator, DEFAULT_LOCALE, type Locale } from "~/lib/i18n";
+import { createActivityTracker, parseFieldActivity, saveActivity, sendActivityBeacon } from "~/lib/activity";
+import { saveDraftSession, type DraftKey } from "~/lib/drafts";
+import { FileUploadField } from "./FileUploadField";
+import { ScaleField } from "./ScaleField";
+import { MatrixField } from "./MatrixField";
+import { GroupField } from "./GroupField";
+
+export type ConditionOperator = 'equals' | 'notEquals' | 'in' | 'greaterThan';
+
+export interface FieldCondition {
+  field: string;
+  operator: ConditionOperator;
+  value: unknown;
+}
+
+export interface ConditionGroup {
+  all?: Condition[];
+  any?: Condition[];
+}
+
+export type Condition = FieldCondition | ConditionGroup;
+
+export type ValidationMessageKey =
+  | 'required' | 'minLength' | 'maxLength' | 'min' | 'max' | 'pattern' | 'invalid'
+  | 'matrixRows' | 'groupMinItems' | 'groupMaxItems' | 'groupItems'
+  | 'fileMaxItems' | 'fileMaxSize' | 'fileType';
 
 export interface FormField {
   key: string;
-  type: 'text' | 'email' | 'number' | 'tel' | 'date' | 'textarea' | 'select' | 'multiselect' | 'checkbox' | 'radio';
+  type: 'text' | 'email' | 'number' | 'tel' | 'date' | 'textarea' | 'select' | 'multiselect' | 'checkbox' | 'radio' | 'file' | 'rating' | 'nps' | 'scale' | 'slider' | 'matrix' | 'group' | 'calculated';
   label: string;
   placeholder?: string;
   required: boolean;
@@ -22,19 +53,100 @@ export interface FormField {
     pattern?: string;
     minLength?: number;
     maxLength?: number;
+    // Cross-field rules, e.g. { expression: "end_date > start_date", message: "..." }
+    rules?: Array<{ expression: string; message: string }>;
+    // Custom error messages; {label} and {limit} are replaced
+    messages?: Partial<Record<ValidationMessageKey, string>>;
+  };
+  // Read-only value computed from other answers (see ~/lib/expressions)
+  calculation?: {
+    expression: string;
+    decimals?: number;
+    prefix?: string;
+    suffix?: string;
   };
   options?: Array<{ value: string; label: string }>;
+  // rating uses max (stars); nps is fixed at 0–10; scale and slider use all of them
+  scale?: {
+    min?: number;
+    max?: number;
+    step?: number;
+    minLabel?: string;
+    maxLabel?: string;
+  };
+  matrix?: {
+    rows: Array<{ value: string; label: string }>;
+    columns: Array<{ value: string; label: string }>;
+    multiple?: boolean;
+  };
+  // Child fields of a repeatable group (groups cannot be nested)
+  fields?: FormField[];
+  repeat?: {
+    min?: number;
+    max?: number;
+    itemLabel?: string;
+  };
+  file?: {
+    accept?: string[];
+    maxSizeMB?: number;
+    maxFiles?: number;
+  };
+  description?: string;
+  visibleWhen?: Condition;
+}
+
+export interface SectionJump {
+  when: Condition;
+  // Id of the target section, or 'end' to finish the form
+  goTo: string;
+}
+
+export interface FormSection {
+  id: string;
+  title: string;
+  description?: string;
+  fields: string[];
+  jumps?: SectionJump[];
+}
+
+// Translated content for one locale; option, row and column labels are keyed by value
+// so answers stay the same whatever language the respondent used.
+export interface FieldTranslation {
+  label?: string;
   description?: string;
+  placeholder?: string;
+  options?: Record<string, string>;
+  rows?: Record<string, string>;
+  columns?: Record<string, string>;
+  minLabel?: string;
+  maxLabel?: string;
+  itemLabel?: string;
+  fields?: Record<string, FieldTranslation>;
+}
+
+export interface FormTranslation {
+  title?: string;
+  description?: string;
+  submitText?: string;
+  completionMessage?: string;
+  fields?: Record<string, FieldTranslation>;
+  sections?: Record<string, { title?: string; description?: string }>;
 }
 
 export interface FormSchema {
   title: string;
   description: string;
   fields: FormField[];
+  sections?: FormSection[];
+  // Content in other languages; the schema itself is written in settings.locale
+  translations?: Partial<Record<Locale, FormTranslation>>;
   settings: {
     allowAnonymous: boolean;
     showProgress: boolean;
     submitText: string;
+    locale?: Locale;
+    // Shown after submitting; may pipe in answers with {{key}}
+    completionMessage?: string;
   };
 }
 
@@ -42,99 +154,95 @@ interface FormFactoryProps {
   schema: FormSchema;
   onSubmit: (data: Record<string, any>) => void;
   loading?: boolean;
-  formId?: string;
-  responseId?: string;
+  // The draft being answered: its session is tracked and uploads are stored under it
+  draft?: DraftKey;
+  // Answers restored from a saved draft
+  initialData?: Record<string, any>;
+  // Called with the answers after each change, e.g. to autosave them
+  onChange?: (data: Record<string, any>) => void;
 }
 
-export function FormFactory({ schema, onSubmit, loading = false, formId, responseId }: FormFactoryProps) {
-  const [formData, setFormData] = useState<Record<string, any>>({});
+export function FormFactory({ schema, onSubmit, loading = false, draft, initialData, onChange }: FormFactoryProps) {
+  const [formData, setFormData] = useState<Record<string, any>>(initialData ?? {});
+  const initialDataRef = useRef(formData);
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const [sessionId, setSessionId] = useState<string | null>(null);
-  const lastActivityRef = useRef<number>(Date.now());
-  const inactivityTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const sections = getSections(schema);
+  const [currentSectionId, setCurrentSectionId] = useState(sections[0].id);
+  const [sectionHistory, setSectionHistory] = useState<string[]>([]);
+  const formRef = useRef<HTMLFormElement>(null);
 
-  // Track session and activity
+  // Track the session: which field the respondent is on and how long each one takes.
+  // Whether the response was abandoned is decided server-side from last_active_at.
   useEffect(() => {
-    if (!formId || !responseId) return;
+    if (!draft) return;
 
-    const trackSession = async () => {
+    const tracker = createActivityTracker();
+    const form = formRef.current;
+    let ready = false;
+
+    const startSession = async () => {
       try {
-        // Create or update session
-        const { data: session, error } = await supabase
-          .from('sessions')
-          .upsert({
-            response_id: responseId,
-            turns_json: [],
-            last_active_at: new Date().toISOString()
-          })
-          .select()
-          .single();
-
-        if (error) throw error;
-        setSessionId(session.id);
+        // Keeps the times of an earlier visit to the same draft
+        tracker.restore(parseFieldActivity(await saveDraftSession(draft, {})));
+        ready = true;
       } catch (error) {
         console.error('Error tracking session:', error);
       }
     };
 
-    trackSession();
-
-    // Track activity every 30 seconds
-    const activityInterval = setInterval(() => {
-      updateActivity();
-    }, 30000);
-
-    // Track inactivity (5 minutes)
-    const trackInactivity = () => {
-      if (inactivityTimeoutRef.current) {
-        clearTimeout(inactivityTimeoutRef.current);
-      }
-      
-      inactivityTimeoutRef.current = setTimeout(async () => {
-        await markAbandoned();
-      }, 5 * 60 * 1000); // 5 minutes
-    };
-
-    const updateActivity = async () => {
-      if (!sessionId) return;
-      
-      lastActivityRef.current = Date.now();
-      
+    const saveProgress = async () => {
+      if (!ready || !tracker.changed || document.visibilityState === 'hidden') return;
+      tracker.markSaved();
       try {
-        await supabase
-          .from('sessions')
-          .update({ last_active_at: new Date().toISOString() })
-          .eq('id', sessionId);
+        await saveActivity(draft, tracker.snapshot());
       } catch (error) {
         console.error('Error updating activity:', error);
       }
-      
-      trackInactivity();
     };
 
-    const markAbandoned = async () => {
-      if (!responseId) return;
-      
-      try {
-        await supabase
-          .from('responses')
-          .update({ abandoned_at: new Date().toISOString() })
-          .eq('id', responseId);
-      } catch (error) {
-        console.error('Error marking as abandoned:', error);
-      }
+    // The page may never come back, so this one has to outlive it
+    const flush = () => {
+      tracker.pause();
+      if (!ready || !tracker.changed) return;
+      tracker.markSaved();
+      sendActivityBeacon(draft, tracker.snapshot());
     };
 
-    // Initial inactivity tracking
-    trackInactivity();
+    const onFocusIn = (event: FocusEvent) => {
+      const key = (event.target as HTMLElement).closest<HTMLElement>('[data-field-key]')?.dataset.fieldKey;
+      if (key) tracker.focus(key);
+    };
+    const onFocusOut = (event: FocusEvent) => {
+      if (!form?.contains(event.relatedTarget as Node | null)) tracker.pause();
+    };
+    const onInput = () => tracker.touch();
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+
+    startSession();
+    const activityInterval = setInterval(saveProgress, 30000);
+    form?.addEventListener('focusin', onFocusIn);
+    form?.addEventListener('focusout', onFocusOut);
+    form?.addEventListener('input', onInput);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('pagehide', flush);
 
     return () => {
       clearInterval(activityInterval);
-      if (inactivityTimeoutRef.current) {
-        clearTimeout(inactivityTimeoutRef.current);
-      }
+      form?.removeEventListener('focusin', onFocusIn);
+      form?.removeEventListener('focusout', onFocusOut);
+      form?.removeEventListener('input', onInput);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+      // Also runs after submitting, when the form is replaced by the completion message
+      flush();
     };
-  }, [formId, responseId, sessionId]);
+  }, [draft?.id, draft?.token]);
+
+  useEffect(() => {
+    if (formData !== initialDataRef.current) onChange?.(formData);
+  }, [formData]);
 
   const handleFieldChange = (key: string, value: any) => {
     setFormData(prev => ({ ...prev, [key]: value }));
@@ -144,72 +252,69 @@ export function FormFactory({ schema, onSubmit, loading = false, formId, respons
     }
   };
 
-  const validateField = (field: FormField, value: any): string | null => {
-    if (field.required && (!value || (typeof value === 'string' && value.trim() === ''))) {
-      return `${field.label} é obrigatório`;
-    }
-
-    if (!value && !field.required) return null;
-
-    const validation = field.validation;
-    if (!validation) return null;
-
-    if (validation.minLength && typeof value === 'string' && value.length < validation.minLength) {
-      return `${field.label} deve ter pelo menos ${validation.minLength} caracteres`;
-    }
-
-    if (validation.maxLength && typeof value === 'string' && value.length > validation.maxLength) {
-      return `${field.label} deve ter no máximo ${validation.maxLength} caracteres`;
-    }
-
-    if (validation.min && typeof value === 'number' && value < validation.min) {
-      return `${field.label} deve ser pelo menos ${validation.min}`;
-    }
-
-    if (validation.max && typeof value === 'number' && value > validation.max) {
-      return `${field.label} deve ser no máximo ${validation.max}`;
-    }
+  const locale = schema.settings.locale ?? DEFAULT_LOCALE;
+  const t = createTranslator(locale);
+  const answers = withCalculatedValues(schema.fields, formData);
+  const visibleFields = getVisibleFields(schema.fields, answers);
+  const currentSection = sections.find(s => s.id === currentSectionId) ?? sections[0];
+  // Labels, descriptions and placeholders may pipe in earlier answers ({{key}})
+  const pageFields = getSectionFields(schema, currentSection)
+    .filter(field => visibleFields.includes(field))
+    .map(field => resolveFieldTemplates(field, answers, schema.fields, locale));
+  const nextSectionId = getNextSectionId(sections, currentSection.id, answers);
+  const isMultiPage = sections.length > 1;
+
+  const validatePage = () => {
+    // Validate only the fields currently shown to the respondent
+    const newErrors = validateAnswers(pageFields, answers, locale);
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
 
-    if (validation.pattern && typeof value === 'string') {
-      const regex = new RegExp(validation.pattern);
-      if (!regex.test(value)) {
-        return `${field.label} tem formato inválido`;
-      }
-    }
+  const goToNextSection = () => {
+    if (!nextSectionId || !validatePage()) return;
+    setSectionHistory(prev => [...prev, currentSection.id]);
+    setCurrentSectionId(nextSectionId);
+  };
 
-    return null;
+  const goToPreviousSection = () => {
+    const previous = sectionHistory[sectionHistory.length - 1];
+    if (!previous) return;
+    setSectionHistory(prev => prev.slice(0, -1));
+    setCurrentSectionId(previous);
+    setErrors({});
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    
-    const newErrors: Record<string, string> = {};
-    let hasErrors = false;
-
-    // Validate all fields
-    schema.fields.forEach(field => {
-      const error = validateField(field, formData[field.key]);
-      if (error) {
-        newErrors[field.key] = error;
-        hasErrors = true;
-      }
-    });
-
-    setErrors(newErrors);
 
-    if (!hasErrors) {
-      onSubmit(formData);
+    if (nextSectionId) {
+      goToNextSection();
+      return;
     }
-  };
 
-  const renderField = (field: FormField) => {
-    const value = formData[field.key] || '';
-    const error = errors[field.key];
+    if (!validatePage()) return;
+
+    // Drop answers left behind in sections the respondent skipped
+    const visitedKeys = new Set(
+      [...sectionHistory, currentSection.id].flatMap(id => sections.find(s => s.id === id)?.fields ?? [])
+    );
+    onSubmit(Object.fromEntries(
+      Object.entries(stripHiddenAnswers(schema.fields, answers)).filter(([key]) => visitedKeys.has(key))
+    ));
+  };
 
+  // Group instances pass their own value, change handler and error for child fields
+  const renderField = (
+    field: FormField,
+    value: any = formData[field.key] ?? '',
+    onChange: (value: any) => void = (val) => handleFieldChange(field.key, val),
+    error: string | undefined = errors[field.key]
+  ) => {
     const baseProps = {
       id: field.key,
       value: value,
-      onChange: (e: any) => handleFieldChange(field.key, e.target?.value || e),
+      onChange: (e: any) => onChange(e.target?.value ?? e),
       placeholder: field.placeholder,
       className: error ? "border-red-500" : "",
     };
@@ -230,6 +335,7 @@ export function FormFactory({ schema, onSubmit, loading = false, formId, respons
         return (
           <Input
             {...baseProps}
+            onChange={(e) => onChange(e.target.value === '' ? '' : e.target.valueAsNumber)}
             type="number"
             min={field.validation?.min}
             max={field.validation?.max}
@@ -257,9 +363,9 @@ export function FormFactory({ schema, onSubmit, loading = false, formId, respons
 
       case 'select':
         return (
-          <Select value={value} onValueChange={(val) => handleFieldChange(field.key, val)}>
+          <Select value={value} onValueChange={(val) => onChange(val)}>
             <SelectTrigger className={error ? "border-red-500" : ""}>
-              <SelectValue placeholder={field.placeholder || `Selecione ${field.label.toLowerCase()}`} />
+              <SelectValue placeholder={field.placeholder || t('form.selectPlaceholder', { label: field.label.toLowerCase() })} />
             </SelectTrigger>
             <SelectContent>
               {field.options?.map((option) => (
@@ -282,9 +388,9 @@ export function FormFactory({ schema, onSubmit, loading = false, formId, respons
                   checked={selectedValues.includes(option.value)}
                   onCheckedChange={(checked) => {
                     if (checked) {
-                      handleFieldChange(field.key, [...selectedValues, option.value]);
+                      onChange([...selectedValues, option.value]);
                     } else {
-                      handleFieldChange(field.key, selectedValues.filter(v => v !== option.value));
+                      onChange(selectedValues.filter(v => v !== option.value));
                     }
                   }}
                 />
@@ -300,7 +406,7 @@ export function FormFactory({ schema, onSubmit, loading = false, formId, respons
             <Checkbox
               id={field.key}
               checked={!!value}
-              onCheckedChange={(checked) => handleFieldChange(field.key, checked)}
+              onCheckedChange={(checked) => onChange(checked)}
             />
             <Label htmlFor={field.key}>{field.label}</Label>
           </div>
@@ -310,7 +416,7 @@ export function FormFactory({ schema, onSubmit, loading = false, formId, respons
         return (
           <RadioGroup
             value={value}
-            onValueChange={(val) => handleFieldChange(field.key, val)}
+            onValueChange={(val) => onChange(val)}
             className={error ? "border-red-500" : ""}
           >
             {field.options?.map((option) => (
@@ -322,18 +428,90 @@ export function FormFactory({ schema, onSubmit, loading = false, formId, respons
           </RadioGroup>
         );
 
+      case 'file':
+        return (
+          <FileUploadField
+            field={field}
+            value={Array.isArray(value) ? value : []}
+            onChange={(files) => onChange(files)}
+            draft={draft}
+            error={error}
+            locale={locale}
+          />
+        );
+
+      case 'rating':
+      case 'nps':
+      case 'scale':
+      case 'slider':
+        return (
+          <ScaleField
+            field={field}
+            value={typeof value === 'number' ? value : undefined}
+            onChange={(val) => onChange(val)}
+            error={error}
+            locale={locale}
+          />
+        );
+
+      case 'matrix':
+        return (
+          <MatrixField
+            field={field}
+            value={value && typeof value === 'object' && !Array.isArray(value) ? value : {}}
+            onChange={(val) => onChange(val)}
+            error={error}
+          />
+        );
+
+      case 'group':
+        return (
+          <GroupField
+            field={field}
+            value={Array.isArray(value) ? value : []}
+            onChange={(val) => onChange(val)}
+            errors={errors}
+            renderField={renderField}
+            locale={locale}
+          />
+        );
+
+      case 'calculated': {
+        const computed = answers[field.key];
+        const decimals = field.calculation?.decimals;
+        const display = computed === null || computed === undefined
+          ? ''
+          : typeof computed === 'number' && decimals !== undefined
+            ? computed.toFixed(decimals)
+            : String(computed);
+        return (
+          <Input
+            id={field.key}
+            value={display ? `${field.calculation?.prefix ?? ''}${display}${field.calculation?.suffix ?? ''}` : ''}
+            placeholder={field.placeholder ?? '—'}
+            readOnly
+            tabIndex={-1}
+            className="bg-gray-50"
+          />
+        );
+      }
+
       default:
         return <Input {...baseProps} />;
     }
   };
 
-  const progress = schema.fields.length > 0 
-    ? (Object.keys(formData).filter(key => formData[key] !== '' && formData[key] !== null && formData[key] !== undefined).length / schema.fields.length) * 100
-    : 0;
+  // Calculated fields fill themselves, so they do not count towards progress
+  const inputFields = visibleFields.filter(field => field.type !== 'calculated');
+  const progress = isMultiPage
+    ? (sectionHistory.length / (sectionHistory.length + getRemainingPath(sections, currentSection.id, answers).length)) * 100
+    : inputFields.length > 0 
+      ? (inputFields.filter(field => formData[field.key] !== '' && formData[field.key] !== null && formData[field.key] !== undefined).length / inputFields.length) * 100
+      : 0;
 
   return (
     <Card className="w-full max-w-2xl mx-auto p-6">
-      <form onSubmit={handleSubmit} className="space-y-6">
+      <form ref={formRef} onSubmit={handleSubmit} className="space-y-6">
         <div className="text-center space-y-2">
           <h1 className="text-2xl font-bold">{schema.title}</h1>
           {schema.description && (
@@ -344,17 +522,26 @@ export function FormFactory({ schema, onSubmit, loading = false, formId, respons
         {schema.settings.showProgress && (
           <div className="space-y-2">
             <div className="flex justify-between text-sm text-gray-600">
-              <span>Progresso</span>
+              <span>{t('form.progress')}</span>
               <span>{Math.round(progress)}%</span>
             </div>
             <Progress value={progress} className="w-full" />
           </div>
         )}
 
+        {isMultiPage && (
+          <div className="space-y-1">
+            <h2 className="text-lg font-semibold">{resolveTemplate(currentSection.title, answers, schema.fields, locale)}</h2>
+            {currentSection.description && (
+              <p className="text-sm text-gray-600">{resolveTemplate(currentSection.description, answers, schema.fields, locale)}</p>
+            )}
+          </div>
+        )}
+
         <div className="space-y-4">
-          {schema.fields.map((field) => (
-            <div key={field.key} className="space-y-2">
-              <Label htmlFor={field.key} className="text-sm font-medium">
+          {pageFields.map((field) => (
+            <div key={field.key} className="space-y-2" data-field-key={field.key}>
+              <Label id={`${field.key}-label`} htmlFor={field.key} className="text-sm font-medium">
                 {field.label}
                 {field.required && <span className="text-red-500 ml-1">*</span>}
               </Label>
@@ -369,13 +556,27 @@ export function FormFactory({ schema, onSubmit, loading = false, formId, respons
           ))}
         </div>
 
-        <Button 
-          type="submit" 
-          className="w-full" 
-          disabled={loading}
-        >
-          {loading ? "Enviando..." : schema.settings.submitText}
-        </Button>
+        <div className="flex gap-2">
+          {sectionHistory.length > 0 && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={goToPreviousSection}
+              disabled={loading}
+            >
+              {t('form.back')}
+            </Button>
+          )}
+          <Button 
+            type="submit" 
+            className="flex-1" 
+            disabled={loading}
+          >
+            {nextSectionId
+              ? t('form.next')
+              : loading ? t('form.sending') : schema.settings.submitText || t('form.submit')}
+          </Button>
+        </div>
       </form>
     </Card>
   );
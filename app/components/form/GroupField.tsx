@@ -0,0 +1,92 @@
+import type { ReactNode } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Label } from "~/components/ui/label";
+import { groupChildKey } from "~/lib/validation";
+import { createTranslator, type Locale } from "~/lib/i18n";
+import type { FormField } from "./FormFactory";
+
+export type GroupInstance = Record<string, any>;
+
+interface GroupFieldProps {
+  field: FormField;
+  value: GroupInstance[];
+  onChange: (value: GroupInstance[]) => void;
+  errors: Record<string, string>;
+  renderField: (field: FormField, value: any, onChange: (value: any) => void, error?: string) => ReactNode;
+  locale?: Locale;
+}
+
+export function GroupField({ field, value, onChange, errors, renderField, locale }: GroupFieldProps) {
+  const t = createTranslator(locale);
+  const itemLabel = field.repeat?.itemLabel ?? t('form.groupItem');
+  const children = field.fields ?? [];
+  const min = field.repeat?.min ?? (field.required ? 1 : 0);
+  const max = field.repeat?.max;
+
+  // Always show at least the minimum number of instances
+  const instances: GroupInstance[] = [
+    ...value,
+    ...Array.from({ length: Math.max(0, min - value.length) }, () => ({})),
+  ];
+
+  const updateInstance = (index: number, childKey: string, childValue: any) => {
+    onChange(instances.map((instance, i) => i === index ? { ...instance, [childKey]: childValue } : instance));
+  };
+
+  const removeInstance = (index: number) => {
+    onChange(instances.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {instances.map((instance, index) => (
+        <fieldset key={index} className="rounded-md border p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <legend className="text-sm font-medium text-gray-700">
+              {itemLabel} {index + 1}
+            </legend>
+            {instances.length > min && (
+              <Button type="button" variant="ghost" size="sm" onClick={() => removeInstance(index)}>
+                <Trash2 className="w-4 h-4 mr-1" />
+                {t('form.groupRemove')}
+              </Button>
+            )}
+          </div>
+
+          {children.map((child) => {
+            const key = groupChildKey(field.key, index, child.key);
+            const error = errors[key];
+            return (
+              <div key={child.key} className="space-y-2">
+                <Label id={`${key}-label`} htmlFor={key} className="text-sm font-medium">
+                  {child.label}
+                  {child.required && <span className="text-red-500 ml-1">*</span>}
+                </Label>
+                {renderField(
+                  { ...child, key },
+                  instance[child.key] ?? '',
+                  (childValue) => updateInstance(index, child.key, childValue),
+                  error
+                )}
+                {error && <p className="text-sm text-red-500">{error}</p>}
+              </div>
+            );
+          })}
+        </fieldset>
+      ))}
+
+      {(max === undefined || instances.length < max) && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...instances, {}])}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          {t('form.groupAdd', { item: itemLabel.toLowerCase() })}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { cn } from "~/lib/utils";
+import type { FormField } from "./FormFactory";
+
+export type MatrixValue = Record<string, string | string[]>;
+
+interface MatrixFieldProps {
+  field: FormField;
+  value: MatrixValue;
+  onChange: (value: MatrixValue) => void;
+  error?: string;
+}
+
+export function MatrixField({ field, value, onChange, error }: MatrixFieldProps) {
+  const rows = field.matrix?.rows ?? [];
+  const columns = field.matrix?.columns ?? [];
+  const multiple = !!field.matrix?.multiple;
+
+  const isChecked = (row: string, column: string) => {
+    const answer = value[row];
+    return Array.isArray(answer) ? answer.includes(column) : answer === column;
+  };
+
+  const toggle = (row: string, column: string, checked: boolean) => {
+    if (!multiple) {
+      onChange({ ...value, [row]: column });
+      return;
+    }
+
+    const current = Array.isArray(value[row]) ? value[row] as string[] : [];
+    onChange({
+      ...value,
+      [row]: checked ? [...current, column] : current.filter(c => c !== column),
+    });
+  };
+
+  return (
+    <div className={cn("overflow-x-auto rounded-md border", error && "border-red-500")}>
+      <table className="w-full text-sm" aria-labelledby={`${field.key}-label`}>
+        <thead>
+          <tr className="bg-gray-50">
+            <td />
+            {columns.map((column) => (
+              <th key={column.value} scope="col" className="px-2 py-2 font-medium text-center">
+                {column.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.value} className="border-t">
+              <th scope="row" className="px-3 py-2 text-left font-normal">
+                {row.label}
+              </th>
+              {columns.map((column) => (
+                <td key={column.value} className="px-2 py-2 text-center">
+                  <input
+                    type={multiple ? 'checkbox' : 'radio'}
+                    name={`${field.key}-${row.value}`}
+                    aria-label={`${row.label}: ${column.label}`}
+                    checked={isChecked(row.value, column.value)}
+                    onChange={(e) => toggle(row.value, column.value, e.target.checked)}
+                    className="h-4 w-4 accent-primary"
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { MessageSquare, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "~/components/ui/button";
+import { Card } from "~/components/ui/card";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Label } from "~/components/ui/label";
+import { Textarea } from "~/components/ui/textarea";
+import { refineSchema } from "~/lib/llm";
+import { FIELD_TYPE_LABELS } from "~/lib/fields";
+import { sanitizeSchema } from "~/lib/sanitize";
+import { applyChanges, diffSchemas, type FormProperty, type SchemaChange } from "~/lib/schemaDiff";
+import type { FormField, FormSchema } from "./FormFactory";
+
+export interface RefineStep {
+  instruction: string;
+  // Schema as it was before the step was applied, restored by undo
+  previous: FormSchema;
+}
+
+interface RefinePanelProps {
+  schema: FormSchema;
+  history: RefineStep[];
+  onApply: (schema: FormSchema, instruction: string) => void;
+  onUndo: () => void;
+}
+
+const PROPERTY_LABELS: Record<string, string> = {
+  label: 'rótulo',
+  type: 'tipo',
+  required: 'obrigatório',
+  placeholder: 'placeholder',
+  description: 'descrição',
+  options: 'opções',
+  validation: 'validação',
+  visibleWhen: 'condição de exibição',
+  scale: 'escala',
+  matrix: 'matriz',
+  fields: 'subcampos',
+  repeat: 'repetição',
+  file: 'arquivo',
+  calculation: 'cálculo',
+};
+
+const FORM_PROPERTY_LABELS: Record<FormProperty, string> = {
+  title: 'Título do formulário',
+  description: 'Descrição do formulário',
+  sections: 'Etapas',
+  settings: 'Configurações',
+};
+
+const fieldName = (field: FormField) => `${field.label || field.key} (${FIELD_TYPE_LABELS[field.type] ?? field.type})`;
+
+function describeChange(change: SchemaChange) {
+  switch (change.kind) {
+    case 'added':
+      return { sign: '+', className: 'text-green-700', text: `Novo campo: ${fieldName(change.after)}` };
+    case 'removed':
+      return { sign: '−', className: 'text-red-700', text: `Remover campo: ${fieldName(change.before)}` };
+    case 'modified':
+      return {
+        sign: '~',
+        className: 'text-amber-700',
+        text: `${change.after.label || change.key}: ${change.properties.map(p => PROPERTY_LABELS[p] ?? p).join(', ')}`,
+      };
+    case 'form':
+      return { sign: '~', className: 'text-amber-700', text: FORM_PROPERTY_LABELS[change.property] };
+  }
+}
+
+// Short before → after detail for changes to simple values
+function changeDetail(change: SchemaChange) {
+  const show = (value: unknown) => typeof value === 'boolean' ? (value ? 'sim' : 'não') : String(value ?? '—');
+
+  if (change.kind === 'form' && typeof change.after !== 'object') {
+    return `${show(change.before)} → ${show(change.after)}`;
+  }
+  if (change.kind === 'modified') {
+    return change.properties
+      .filter(p => ['label', 'required', 'type', 'placeholder', 'description'].includes(p))
+      .map(p => {
+        const before = change.before[p as keyof FormField];
+        const after = change.after[p as keyof FormField];
+        return p === 'type'
+          ? `${FIELD_TYPE_LABELS[before as FormField['type']]} → ${FIELD_TYPE_LABELS[after as FormField['type']]}`
+          : `${show(before)} → ${show(after)}`;
+      })
+      .join(' · ');
+  }
+  return '';
+}
+
+export function RefinePanel({ schema, history, onApply, onUndo }: RefinePanelProps) {
+  const [instruction, setInstruction] = useState("");
+  const [refining, setRefining] = useState(false);
+  const [proposal, setProposal] = useState<{ instruction: string; schema: FormSchema } | null>(null);
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+
+  // Diffed against the current schema, so edits made while reviewing are kept
+  const changes = proposal ? diffSchemas(schema, proposal.schema) : [];
+
+  const onRefine = async () => {
+    if (!instruction.trim()) return;
+
+    setRefining(true);
+    try {
+      const res = await refineSchema(schema, instruction);
+      if (!res?.schema || !Array.isArray(res.schema.fields)) throw new Error('Invalid schema returned');
+
+      const { schema: proposed } = sanitizeSchema(res.schema);
+      setProposal({ instruction, schema: proposed });
+      setAccepted(new Set(diffSchemas(schema, proposed).map(c => c.id)));
+      setInstruction("");
+    } catch (error) {
+      console.error('Error refining schema:', error);
+      toast.error("Erro ao refinar formulário");
+    } finally {
+      setRefining(false);
+    }
+  };
+
+  const toggle = (id: string, checked: boolean) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id); else next.delete(id);
+      return next;
+    });
+  };
+
+  const onApplyChanges = () => {
+    if (!proposal) return;
+    onApply(applyChanges(schema, proposal.schema, changes, accepted), proposal.instruction);
+    setProposal(null);
+  };
+
+  const selectedCount = changes.filter(c => accepted.has(c.id)).length;
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <MessageSquare className="w-5 h-5" />
+          Refinar com IA
+        </h3>
+        {history.length > 0 && (
+          <Button type="button" variant="outline" size="sm" onClick={onUndo}>
+            <Undo2 className="w-4 h-4 mr-1" />
+            Desfazer
+          </Button>
+        )}
+      </div>
+
+      {history.length > 0 && (
+        <ol className="space-y-1 text-sm text-gray-600">
+          {history.map((step, index) => (
+            <li key={index} className="rounded-md bg-gray-50 px-3 py-2">{step.instruction}</li>
+          ))}
+        </ol>
+      )}
+
+      {proposal ? (
+        <div className="space-y-3">
+          <p className="text-sm font-medium">Alterações propostas para “{proposal.instruction}”</p>
+          {changes.length === 0 ? (
+            <p className="text-sm text-gray-600">Nenhuma alteração proposta.</p>
+          ) : (
+            <ul className="space-y-2">
+              {changes.map((change) => {
+                const { sign, className, text } = describeChange(change);
+                const detail = changeDetail(change);
+                return (
+                  <li key={change.id} className="flex items-start gap-2">
+                    <Checkbox
+                      id={`change-${change.id}`}
+                      checked={accepted.has(change.id)}
+                      onCheckedChange={(checked) => toggle(change.id, !!checked)}
+                      className="mt-0.5"
+                    />
+                    <Label htmlFor={`change-${change.id}`} className="flex-col items-start gap-0 font-normal">
+                      <span className={className}>
+                        <span className="font-mono mr-1">{sign}</span>
+                        {text}
+                      </span>
+                      {detail && <span className="text-xs text-gray-500">{detail}</span>}
+                    </Label>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <Button type="button" onClick={onApplyChanges} disabled={selectedCount === 0}>
+              Aplicar selecionadas ({selectedCount})
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setProposal(null)}>
+              Descartar
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Textarea
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) onRefine();
+            }}
+            placeholder="Ex: agora adicione um campo de telefone e torne o email opcional"
+            rows={3}
+          />
+          <Button type="button" onClick={onRefine} disabled={refining || !instruction.trim()}>
+            {refining ? "Refinando..." : "Enviar"}
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
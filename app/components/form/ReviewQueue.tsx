@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { AlertTriangle, Check, Pencil } from "lucide-react";
+import { toast } from "sonner";
+import { FormFactory, type FormField, type FormSchema } from "~/components/form/FormFactory";
+import { Button } from "~/components/ui/button";
+import { Card } from "~/components/ui/card";
+import { Input } from "~/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+import { coerceAnswer } from "~/lib/chat";
+import { validateAnswers } from "~/lib/validation";
+
+export interface ReviewItem {
+  itemId: string;
+  responseId: string;
+  field: FormField;
+  value: unknown;
+  confidence: number;
+}
+
+interface ReviewQueueProps {
+  items: ReviewItem[];
+  renderValue: (field: FormField, value: unknown) => React.ReactNode;
+  onAccept: (item: ReviewItem) => void;
+  onFix: (item: ReviewItem, value: unknown) => void;
+  savingId?: string | null;
+}
+
+const SINGLE_CHOICE: FormField['type'][] = ['select', 'radio'];
+// Grids and groups cannot be typed, so they are edited with the form's own inputs
+const STRUCTURED: FormField['type'][] = ['matrix', 'group'];
+
+const editorSchema = (field: FormField): FormSchema => ({
+  title: 'Corrigir valor',
+  description: '',
+  fields: [{ ...field, visibleWhen: undefined }],
+  settings: { allowAnonymous: true, showProgress: false, submitText: 'Salvar' },
+});
+
+const toText = (value: unknown) => (Array.isArray(value) ? value.join(', ') : String(value ?? ''));
+
+export function ReviewQueue({ items, renderValue, onAccept, onFix, savingId }: ReviewQueueProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const startEditing = (item: ReviewItem) => {
+    setEditingId(item.itemId);
+    setDraft(item.field.type === 'checkbox' ? String(item.value === true) : toText(item.value));
+  };
+
+  // The fix goes through the same coercion and validation as an answer typed in the chat
+  const saveFix = (item: ReviewItem, input: unknown = draft) => {
+    const value = coerceAnswer(item.field, input);
+    if (value === undefined) {
+      toast.error("Valor inválido para este campo");
+      return;
+    }
+    const error = validateAnswers([item.field], { [item.field.key]: value })[item.field.key];
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    onFix(item, value);
+    setEditingId(null);
+  };
+
+  return (
+    <Card className="p-4 mb-6 space-y-3 border-amber-300">
+      <div>
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-amber-500" />
+          Revisão ({items.length})
+        </h2>
+        <p className="text-sm text-gray-600">
+          Valores extraídos pela IA com baixa confiança. Aceite-os ou corrija antes de usar os dados.
+        </p>
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {items.map((item) => {
+          const choices = item.field.type === 'checkbox'
+            ? [{ value: 'true', label: 'Sim' }, { value: 'false', label: 'Não' }]
+            : SINGLE_CHOICE.includes(item.field.type) ? item.field.options ?? [] : null;
+
+          return (
+            <div key={item.itemId} className="py-3 flex flex-wrap items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-700">{item.field.label}</p>
+                <p className="text-xs text-gray-500">
+                  Resposta {item.responseId.slice(0, 8)}... · confiança {Math.round(item.confidence * 100)}%
+                </p>
+              </div>
+
+              {editingId === item.itemId && STRUCTURED.includes(item.field.type) ? (
+                <div className="w-full space-y-2">
+                  <FormFactory
+                    schema={editorSchema(item.field)}
+                    initialData={{ [item.field.key]: item.value }}
+                    onSubmit={(data) => saveFix(item, data[item.field.key])}
+                    loading={savingId === item.itemId}
+                  />
+                  <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                    Cancelar
+                  </Button>
+                </div>
+              ) : editingId === item.itemId ? (
+                <div className="flex items-center gap-2">
+                  {choices ? (
+                    <Select value={draft} onValueChange={setDraft}>
+                      <SelectTrigger className="w-56">
+                        <SelectValue placeholder="Escolha" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {choices.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input
+                      className="w-56"
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      placeholder={item.field.options?.map(o => o.label).join(', ')}
+                    />
+                  )}
+                  <Button size="sm" onClick={() => saveFix(item)} disabled={savingId === item.itemId}>
+                    Salvar
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                    Cancelar
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <span className="text-gray-900 text-sm">{renderValue(item.field, item.value)}</span>
+                  <Button size="sm" variant="outline" onClick={() => onAccept(item)} disabled={savingId === item.itemId}>
+                    <Check className="w-4 h-4 mr-1" />
+                    Aceitar
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => startEditing(item)} disabled={savingId === item.itemId}>
+                    <Pencil className="w-4 h-4 mr-1" />
+                    Corrigir
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
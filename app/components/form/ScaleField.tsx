@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { Star } from "lucide-react";
+import { cn } from "~/lib/utils";
+import { getScaleRange, getScaleSteps } from "~/lib/scales";
+import { createTranslator, type Locale } from "~/lib/i18n";
+import type { FormField } from "./FormFactory";
+
+interface ScaleFieldProps {
+  field: FormField;
+  value: number | undefined;
+  onChange: (value: number) => void;
+  error?: string;
+  locale?: Locale;
+}
+
+export function ScaleField({ field, value, onChange, error, locale }: ScaleFieldProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const range = getScaleRange(field, locale);
+  const t = createTranslator(locale);
+
+  const endpointLabels = (range.minLabel || range.maxLabel) && (
+    <div className="flex justify-between text-xs text-gray-500">
+      <span>{range.minLabel}</span>
+      <span>{range.maxLabel}</span>
+    </div>
+  );
+
+  if (field.type === 'rating') {
+    const shown = hovered ?? value ?? 0;
+    return (
+      <div
+        role="radiogroup"
+        aria-labelledby={`${field.key}-label`}
+        className="flex gap-1"
+        onMouseLeave={() => setHovered(null)}
+      >
+        {getScaleSteps(range).map((star) => (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={value === star}
+            aria-label={t('form.ratingOf', { value: star, max: range.max })}
+            onClick={() => onChange(star)}
+            onMouseEnter={() => setHovered(star)}
+            className="p-1"
+          >
+            <Star
+              className={cn(
+                "w-7 h-7 transition-colors",
+                star <= shown ? "fill-yellow-400 text-yellow-400" : "text-gray-300"
+              )}
+            />
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  if (field.type === 'slider') {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center gap-3">
+          <input
+            id={field.key}
+            type="range"
+            min={range.min}
+            max={range.max}
+            step={range.step}
+            value={value ?? range.min}
+            onChange={(e) => onChange(e.target.valueAsNumber)}
+            className={cn("w-full accent-primary", error && "accent-red-500")}
+          />
+          <span className="w-12 text-right text-sm font-medium">{value ?? '–'}</span>
+        </div>
+        {endpointLabels}
+      </div>
+    );
+  }
+
+  // nps and scale: a row of numbered buttons
+  return (
+    <div className="space-y-1">
+      <div role="radiogroup" aria-labelledby={`${field.key}-label`} className="flex flex-wrap gap-1">
+        {getScaleSteps(range).map((step) => (
+          <button
+            key={step}
+            type="button"
+            role="radio"
+            aria-checked={value === step}
+            onClick={() => onChange(step)}
+            className={cn(
+              "min-w-9 h-9 px-2 rounded-md border text-sm transition-colors",
+              value === step ? "bg-primary text-primary-foreground border-primary" : "hover:bg-accent",
+              error && value !== step && "border-red-500"
+            )}
+          >
+            {step}
+          </button>
+        ))}
+      </div>
+      {endpointLabels}
+    </div>
+  );
+}
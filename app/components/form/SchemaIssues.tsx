@@ -0,0 +1,51 @@
+import { AlertTriangle, FileWarning, Wrench } from "lucide-react";
+import { Card } from "~/components/ui/card";
+
+interface SchemaIssuesProps {
+  repairs: string[];
+  warnings: string[];
+  // Parts of an imported document that were left out
+  unmapped?: string[];
+}
+
+export function SchemaIssues({ repairs, warnings, unmapped = [] }: SchemaIssuesProps) {
+  if (repairs.length === 0 && warnings.length === 0 && unmapped.length === 0) return null;
+
+  return (
+    <Card className="p-4 space-y-3">
+      {unmapped.length > 0 && (
+        <div className="space-y-1">
+          <h3 className="font-semibold flex items-center gap-2 text-red-700">
+            <FileWarning className="w-4 h-4" />
+            Não importado ({unmapped.length})
+          </h3>
+          <ul className="list-disc pl-5 text-sm text-gray-700">
+            {unmapped.map((item, index) => <li key={index}>{item}</li>)}
+          </ul>
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <div className="space-y-1">
+          <h3 className="font-semibold flex items-center gap-2 text-amber-700">
+            <AlertTriangle className="w-4 h-4" />
+            Avisos ({warnings.length})
+          </h3>
+          <ul className="list-disc pl-5 text-sm text-gray-700">
+            {warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+          </ul>
+        </div>
+      )}
+      {repairs.length > 0 && (
+        <div className="space-y-1">
+          <h3 className="font-semibold flex items-center gap-2 text-gray-700">
+            <Wrench className="w-4 h-4" />
+            Corrigido automaticamente ({repairs.length})
+          </h3>
+          <ul className="list-disc pl-5 text-sm text-gray-600">
+            {repairs.map((repair, index) => <li key={index}>{repair}</li>)}
+          </ul>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { CloudOff, CloudUpload, CheckCircle, AlertCircle, X } from "lucide-react";
+import { cn } from "~/lib/utils";
+import { createTranslator, resolveLocale } from "~/lib/i18n";
+import {
+  dismissFailedSubmissions,
+  getFailedSubmissions,
+  getQueuedSubmissions,
+  QUEUE_EVENT,
+  syncQueuedSubmissions,
+} from "~/lib/offline";
+
+const RETRY_INTERVAL = 30 * 1000;
+
+// Sends submissions queued while offline as soon as possible, from any page, and shows
+// how many are still waiting and how many the server refused.
+export function SyncStatus() {
+  const [pending, setPending] = useState(0);
+  const [failed, setFailed] = useState(0);
+  const [state, setState] = useState<'idle' | 'syncing' | 'synced'>('idle');
+  const t = createTranslator(resolveLocale(...(typeof navigator !== 'undefined' ? navigator.languages : [])));
+
+  useEffect(() => {
+    let hideTimeout: NodeJS.Timeout | undefined;
+
+    const sync = async () => {
+      try {
+        const queued = await getQueuedSubmissions();
+        setPending(queued.length);
+        if (queued.length === 0 || !navigator.onLine) return;
+
+        setState('syncing');
+        const sent = await syncQueuedSubmissions();
+        setState(sent > 0 ? 'synced' : 'idle');
+        if (sent > 0) {
+          clearTimeout(hideTimeout);
+          hideTimeout = setTimeout(() => setState('idle'), 4000);
+        }
+      } catch (error) {
+        console.error('Error syncing queued submissions:', error);
+        setState('idle');
+      }
+      setPending((await getQueuedSubmissions().catch(() => [])).length);
+      setFailed((await getFailedSubmissions().catch(() => [])).length);
+    };
+
+    sync();
+    const interval = setInterval(sync, RETRY_INTERVAL);
+    window.addEventListener('online', sync);
+    window.addEventListener(QUEUE_EVENT, sync);
+
+    return () => {
+      clearInterval(interval);
+      clearTimeout(hideTimeout);
+      window.removeEventListener('online', sync);
+      window.removeEventListener(QUEUE_EVENT, sync);
+    };
+  }, []);
+
+  const onDismissFailed = () =>
+    dismissFailedSubmissions().catch((error) => console.error('Error dismissing failed submissions:', error));
+
+  if (failed > 0 && state !== 'syncing') {
+    return (
+      <div
+        role="alert"
+        className="fixed bottom-4 right-4 z-50 flex items-center gap-2 rounded-full bg-red-100 px-4 py-2 text-sm text-red-800 shadow-md"
+      >
+        <AlertCircle className="w-4 h-4" />
+        {t('queue.failed', { count: failed })}
+        <button type="button" onClick={onDismissFailed} aria-label={t('queue.dismiss')}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  if (state === 'idle' && pending === 0) return null;
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        "fixed bottom-4 right-4 z-50 flex items-center gap-2 rounded-full px-4 py-2 text-sm shadow-md",
+        state === 'synced' ? "bg-green-100 text-green-800" : "bg-amber-100 text-amber-800"
+      )}
+    >
+      {state === 'syncing' ? (
+        <>
+          <CloudUpload className="w-4 h-4" />
+          {t('queue.syncing')}
+        </>
+      ) : state === 'synced' && pending === 0 ? (
+        <>
+          <CheckCircle className="w-4 h-4" />
+          {t('queue.synced')}
+        </>
+      ) : (
+        <>
+          <CloudOff className="w-4 h-4" />
+          {t('queue.pending', { count: pending })}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { LayoutTemplate, Trash2 } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Card } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { BUILT_IN_TEMPLATES, type FormTemplate } from "~/lib/gallery";
+
+interface TemplateGalleryProps {
+  templates: FormTemplate[];
+  loading?: boolean;
+  onUse: (template: FormTemplate) => void;
+  onDelete: (id: string) => void;
+  deletingId?: string | null;
+}
+
+export function TemplateGallery({ templates, loading = false, onUse, onDelete, deletingId }: TemplateGalleryProps) {
+  return (
+    <Card className="p-6 space-y-4">
+      <h2 className="text-xl font-semibold flex items-center gap-2">
+        <LayoutTemplate className="w-5 h-5" />
+        Modelos
+      </h2>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        {[...BUILT_IN_TEMPLATES, ...templates].map((template) => (
+          <Card key={template.id} className="p-4 flex flex-col gap-2 hover:shadow-md transition-shadow">
+            <div className="flex items-start justify-between gap-2">
+              <h3 className="font-semibold">{template.name}</h3>
+              <Badge variant={template.builtIn ? "secondary" : "outline"}>
+                {template.builtIn ? "FormCraft" : "Meu modelo"}
+              </Badge>
+            </div>
+            <p className="text-sm text-gray-600 line-clamp-2 flex-1">
+              {template.description || `${template.schema.fields.length} campo(s)`}
+            </p>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => onUse(template)}>
+                Usar modelo
+              </Button>
+              {!template.builtIn && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onDelete(template.id)}
+                  disabled={deletingId === template.id}
+                  aria-label={`Apagar modelo ${template.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      {loading && <p className="text-sm text-gray-500">Carregando seus modelos...</p>}
+    </Card>
+  );
+}
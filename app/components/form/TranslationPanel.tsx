@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { Languages } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "~/components/ui/button";
+import { Card } from "~/components/ui/card";
+import { Label } from "~/components/ui/label";
+import { Badge } from "~/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+import { translateSchema } from "~/lib/llm";
+import { LOCALES, LOCALE_NAMES, type Locale } from "~/lib/i18n";
+import { extractTranslation, getAvailableLocales, getSourceLocale, sanitizeTranslation } from "~/lib/translations";
+import type { FormSchema } from "./FormFactory";
+
+interface TranslationPanelProps {
+  schema: FormSchema;
+  onChange: (schema: FormSchema) => void;
+  previewLocale: Locale;
+  onPreviewLocaleChange: (locale: Locale) => void;
+}
+
+export function TranslationPanel({ schema, onChange, previewLocale, onPreviewLocaleChange }: TranslationPanelProps) {
+  const sourceLocale = getSourceLocale(schema);
+  const available = getAvailableLocales(schema);
+  const missing = LOCALES.filter(locale => !available.includes(locale));
+  const [selectedTarget, setTarget] = useState<Locale | undefined>(missing[0]);
+  const [translating, setTranslating] = useState(false);
+  // The selection may have been translated or become the original language meanwhile
+  const target = selectedTarget && missing.includes(selectedTarget) ? selectedTarget : missing[0];
+
+  const onSourceLocaleChange = (locale: Locale) => {
+    const { [locale]: _, ...translations } = schema.translations ?? {};
+    onChange({ ...schema, settings: { ...schema.settings, locale }, translations });
+    onPreviewLocaleChange(locale);
+  };
+
+  const onTranslate = async () => {
+    if (!target) return;
+
+    setTranslating(true);
+    try {
+      const base = extractTranslation(schema);
+      const res = await translateSchema(base, sourceLocale, target);
+      const translation = sanitizeTranslation(res.translation, base);
+      if (!translation) throw new Error('Empty translation');
+
+      onChange({ ...schema, translations: { ...schema.translations, [target]: translation } });
+      onPreviewLocaleChange(target);
+      toast.success(`Traduzido para ${LOCALE_NAMES[target]}`);
+    } catch (error) {
+      console.error('Error translating schema:', error);
+      toast.error("Erro ao traduzir formulário");
+    } finally {
+      setTranslating(false);
+    }
+  };
+
+  const removeTranslation = (locale: Locale) => {
+    const { [locale]: _, ...translations } = schema.translations ?? {};
+    onChange({ ...schema, translations });
+    if (previewLocale === locale) onPreviewLocaleChange(sourceLocale);
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <h3 className="text-lg font-semibold flex items-center gap-2">
+        <Languages className="w-5 h-5" />
+        Idiomas
+      </h3>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Idioma original</Label>
+          <Select value={sourceLocale} onValueChange={(val) => onSourceLocaleChange(val as Locale)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LOCALES.map((locale) => (
+                <SelectItem key={locale} value={locale}>{LOCALE_NAMES[locale]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Visualizar em</Label>
+          <Select value={previewLocale} onValueChange={(val) => onPreviewLocaleChange(val as Locale)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map((locale) => (
+                <SelectItem key={locale} value={locale}>{LOCALE_NAMES[locale]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {available.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {available.filter(locale => locale !== sourceLocale).map((locale) => (
+            <Badge key={locale} variant="secondary" className="gap-2">
+              {LOCALE_NAMES[locale]}
+              <button type="button" onClick={() => removeTranslation(locale)} aria-label={`Remover ${LOCALE_NAMES[locale]}`}>
+                ×
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {missing.length > 0 && (
+        <div className="flex gap-2">
+          <Select value={target} onValueChange={(val) => setTarget(val as Locale)}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Traduzir para..." />
+            </SelectTrigger>
+            <SelectContent>
+              {missing.map((locale) => (
+                <SelectItem key={locale} value={locale}>{LOCALE_NAMES[locale]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={onTranslate} disabled={!target || translating}>
+            {translating ? "Traduzindo..." : "Traduzir com IA"}
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
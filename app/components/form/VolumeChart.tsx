@@ -0,0 +1,38 @@
+import { Card } from "~/components/ui/card";
+import type { Bucket } from "~/lib/summaries";
+
+interface VolumeChartProps {
+  buckets: Bucket[];
+}
+
+// Vertical bars, one per day or week; labels are thinned out so they do not overlap
+export function VolumeChart({ buckets }: VolumeChartProps) {
+  const maxCount = Math.max(1, ...buckets.map(b => b.count));
+  const labelEvery = Math.ceil(buckets.length / 12);
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex justify-between items-start gap-4">
+        <h3 className="font-semibold">Envios ao longo do tempo</h3>
+        <p className="text-sm text-gray-600">{buckets.reduce((sum, b) => sum + b.count, 0)} enviada(s)</p>
+      </div>
+      <div className="flex items-end gap-1 h-32">
+        {buckets.map((bucket) => (
+          <div
+            key={bucket.label}
+            className="flex-1 bg-primary rounded-t min-h-px"
+            style={{ height: `${(bucket.count / maxCount) * 100}%` }}
+            title={`${bucket.label}: ${bucket.count}`}
+          />
+        ))}
+      </div>
+      <div className="flex gap-1 text-[10px] text-gray-500">
+        {buckets.map((bucket, index) => (
+          <span key={bucket.label} className="flex-1 text-center truncate">
+            {index % labelEvery === 0 ? bucket.label : ''}
+          </span>
+        ))}
+      </div>
+    </Card>
+  );
+}
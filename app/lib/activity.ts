@@ -0,0 +1,136 @@
+import type { FormField } from "~/components/form/FormFactory";
+import { saveDraftSession, type DraftKey } from "~/lib/drafts";
+
+// How a respondent moved through a form, stored in sessions.last_field_key and
+// sessions.field_times_json. Abandonment itself is decided in the database from
+// sessions.last_active_at (supabase/sql/abandonment.sql), so closing the tab loses nothing.
+
+export interface FieldActivity {
+  lastFieldKey: string | null;
+  // Milliseconds spent on each field, summed over every visit
+  fieldTimes: Record<string, number>;
+}
+
+export const parseFieldActivity = (session: { last_field_key?: unknown; field_times_json?: unknown } | null | undefined): FieldActivity => {
+  const times = session?.field_times_json;
+  return {
+    lastFieldKey: typeof session?.last_field_key === 'string' ? session.last_field_key : null,
+    fieldTimes: times && typeof times === 'object' && !Array.isArray(times)
+      ? Object.fromEntries(Object.entries(times).filter(([, ms]) => typeof ms === 'number' && ms >= 0))
+      : {},
+  };
+};
+
+// Counts time on the focused field; paused while the page is hidden or nothing is focused.
+// `changed` tells whether there is anything new to save since the last `markSaved`.
+export function createActivityTracker(now = Date.now) {
+  let lastFieldKey: string | null = null;
+  const fieldTimes: Record<string, number> = {};
+  let current: string | null = null;
+  let startedAt = 0;
+  let changed = false;
+
+  const stopCounting = () => {
+    if (current) fieldTimes[current] = (fieldTimes[current] ?? 0) + now() - startedAt;
+    current = null;
+  };
+
+  return {
+    // Adds what an earlier visit to the same response stored
+    restore(previous: FieldActivity) {
+      lastFieldKey ??= previous.lastFieldKey;
+      for (const [key, ms] of Object.entries(previous.fieldTimes)) fieldTimes[key] = (fieldTimes[key] ?? 0) + ms;
+    },
+    focus(key: string) {
+      if (key === current) return;
+      stopCounting();
+      current = key;
+      startedAt = now();
+      lastFieldKey = key;
+      changed = true;
+    },
+    pause() {
+      if (current) changed = true;
+      stopCounting();
+    },
+    // Activity without a focus change, e.g. typing or clicking
+    touch() {
+      changed = true;
+    },
+    // Includes the time on the focused field so far, without stopping the count
+    snapshot(): FieldActivity {
+      const times = { ...fieldTimes };
+      if (current) times[current] = (times[current] ?? 0) + now() - startedAt;
+      return { lastFieldKey, fieldTimes: times };
+    },
+    get changed() {
+      return changed;
+    },
+    markSaved() {
+      changed = false;
+    },
+  };
+}
+
+const toSessionColumns = (activity: FieldActivity) => ({
+  last_field_key: activity.lastFieldKey,
+  field_times_json: Object.fromEntries(Object.entries(activity.fieldTimes).map(([key, ms]) => [key, Math.round(ms)])),
+});
+
+export async function saveActivity(draft: DraftKey, activity: FieldActivity) {
+  await saveDraftSession(draft, toSessionColumns(activity));
+}
+
+// For pagehide: a keepalive request outlives the page, which supabase-js calls do not.
+// Respondents are anonymous, so the anon key is enough; the token authorizes the write.
+export function sendActivityBeacon(draft: DraftKey, activity: FieldActivity) {
+  const env = import.meta.env;
+  fetch(`${env.VITE_SUPABASE_URL}/rest/v1/rpc/save_draft_session`, {
+    method: 'POST',
+    keepalive: true,
+    headers: {
+      apikey: env.VITE_SUPABASE_ANON_KEY,
+      Authorization: `Bearer ${env.VITE_SUPABASE_ANON_KEY}`,
+      'Content-Type': 'application/json',
+      Prefer: 'return=minimal',
+    },
+    body: JSON.stringify({ p_response_id: draft.id, p_token: draft.token, p_session: toSessionColumns(activity) }),
+  }).catch((error) => console.error('Error sending activity:', error));
+}
+
+// One row per field, as computed by form_summary (supabase/sql/response_aggregates.sql)
+export interface DropOffAggregate {
+  field_key: string;
+  reached: number;
+  dropped: number;
+  median_ms: number | null;
+  average_ms: number | null;
+}
+
+export interface FieldDropOff {
+  field: FormField;
+  // Respondents who focused or answered the field
+  reached: number;
+  // Abandoned responses whose last focused field was this one
+  dropped: number;
+  medianSeconds: number | null;
+  averageSeconds: number | null;
+}
+
+const toSeconds = (ms: number | null | undefined) => (typeof ms === 'number' ? ms / 1000 : null);
+
+// One row per answerable top-level field, in form order
+export function summarizeDropOff(fields: FormField[], aggregates: DropOffAggregate[]): FieldDropOff[] {
+  return fields
+    .filter(field => field.type !== 'calculated')
+    .map(field => {
+      const aggregate = aggregates.find(a => a.field_key === field.key);
+      return {
+        field,
+        reached: aggregate?.reached ?? 0,
+        dropped: aggregate?.dropped ?? 0,
+        medianSeconds: toSeconds(aggregate?.median_ms),
+        averageSeconds: toSeconds(aggregate?.average_ms),
+      };
+    });
+}
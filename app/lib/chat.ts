@@ -0,0 +1,236 @@
+import type { FormField, FormSchema } from "~/components/form/FormFactory";
+import { getVisibleFields, stripHiddenAnswers } from "~/lib/conditions";
+import { getRemainingPath, getSectionFields, getSections } from "~/lib/sections";
+import { withCalculatedValues } from "~/lib/expressions";
+import { getScaleRange, isScaleField } from "~/lib/scales";
+import { isEmptyAnswer } from "~/lib/validation";
+import { parseDate } from "~/lib/dates";
+import { resolveTemplate } from "~/lib/templates";
+import type { Locale, Translator } from "~/lib/i18n";
+
+export interface ChatTurn {
+  role: 'assistant' | 'user';
+  text: string;
+  at: string;
+  // Fields the assistant asked about, or the fields a user message filled
+  fields?: string[];
+  // On user turns: the values extracted from the message and their confidence
+  answers?: Record<string, unknown>;
+  confidence?: Record<string, number>;
+  // On user turns: the field the respondent chose to skip
+  skipped?: string;
+}
+
+export interface ChatState {
+  answers: Record<string, any>;
+  confidence: Record<string, number>;
+  skipped: string[];
+  askedKey: string | null;
+}
+
+// Result of nluMap (see LLM_CONTRACTS.nluMap): the fields it could fill from the message
+// and, optionally, how confident it is about each one (0–1).
+export interface NluResult {
+  answers: Record<string, unknown>;
+  confidence: Record<string, number>;
+}
+
+// Extracted values below this confidence are confirmed with the respondent, and the owner
+// reviews any that still are. Confidence 1 marks a value confirmed by a person.
+export const LOW_CONFIDENCE = 0.7;
+
+export const isUncertain = (confidence: number | null | undefined) =>
+  typeof confidence === 'number' && confidence < LOW_CONFIDENCE;
+
+// Uploads, grids and repeatable groups cannot be typed, and calculated fields fill themselves
+const NOT_ASKED: FormField['type'][] = ['file', 'calculated', 'matrix', 'group'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const isChatField = (field: FormField) => !NOT_ASKED.includes(field.type);
+
+// Fields only the standard form can fill in
+export const hasFormOnlyFields = (schema: FormSchema) =>
+  schema.fields.some(f => !isChatField(f) && f.type !== 'calculated');
+
+// Fields the respondent will see given the answers so far: visible and on the predicted section path
+export function getPathFields(schema: FormSchema, answers: Record<string, any>): FormField[] {
+  const sections = getSections(schema);
+  const computed = withCalculatedValues(schema.fields, answers);
+  const visible = getVisibleFields(schema.fields, computed);
+  return getRemainingPath(sections, sections[0].id, computed)
+    .flatMap(id => getSectionFields(schema, sections.find(s => s.id === id)!))
+    .filter(field => visible.includes(field));
+}
+
+export function getChatFields(schema: FormSchema, answers: Record<string, any>): FormField[] {
+  return getPathFields(schema, answers).filter(isChatField);
+}
+
+export function getNextChatField(schema: FormSchema, answers: Record<string, any>, skipped: string[]): FormField | null {
+  return getChatFields(schema, answers).find(field => isEmptyAnswer(answers[field.key]) && !skipped.includes(field.key)) ?? null;
+}
+
+// First answered field whose extracted value still needs the respondent's confirmation
+export function getUncertainField(schema: FormSchema, answers: Record<string, any>, confidence: Record<string, number>) {
+  return getChatFields(schema, answers).find(f => !isEmptyAnswer(answers[f.key]) && isUncertain(confidence[f.key])) ?? null;
+}
+
+const TRUE_WORDS = ['true', 'sim', 's', 'yes', 'y', 'si', 'sí', 'correto', 'correct', 'correcto', 'isso'];
+const FALSE_WORDS = ['false', 'não', 'nao', 'n', 'no', 'errado', 'wrong', 'incorrecto'];
+
+export function parseYesNo(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  const text = String(value).trim().toLowerCase().replace(/[.!]+$/, '');
+  if (TRUE_WORDS.includes(text)) return true;
+  if (FALSE_WORDS.includes(text)) return false;
+  return undefined;
+}
+
+function matchOption(options: Array<{ value: string; label: string }> | undefined, value: unknown) {
+  const text = String(value).trim().toLowerCase();
+  return options?.find(o => o.value === String(value))?.value
+    ?? options?.find(o => o.value.toLowerCase() === text || o.label.trim().toLowerCase() === text)?.value;
+}
+
+// Converts a value from the NLU (or a raw reply) into the shape the field stores,
+// or undefined when it cannot be a valid answer for it.
+export function coerceAnswer(field: FormField, value: unknown): unknown {
+  if (value === null || value === undefined) return undefined;
+
+  switch (field.type) {
+    case 'select':
+    case 'radio':
+      return matchOption(field.options, value);
+
+    case 'multiselect': {
+      const items = Array.isArray(value) ? value : String(value).split(/[,;]/);
+      const matched = [...new Set(items.map(item => matchOption(field.options, item)).filter(Boolean))];
+      return matched.length ? matched : undefined;
+    }
+
+    case 'checkbox':
+      return parseYesNo(value);
+
+    case 'number':
+    case 'rating':
+    case 'nps':
+    case 'scale':
+    case 'slider': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim().replace(',', '.'));
+      return Number.isFinite(number) ? number : undefined;
+    }
+
+    case 'date':
+      return typeof value === 'string' ? parseDate(value) : undefined;
+
+    case 'matrix':
+      return isObject(value) ? value : undefined;
+
+    case 'group':
+      return Array.isArray(value) && value.every(isObject) ? value : undefined;
+
+    default: {
+      const text = typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+      return text || undefined;
+    }
+  }
+}
+
+// Keeps only answers for the given fields that can be coerced into their type
+export function parseNluResult(data: unknown, fields: FormField[]): NluResult {
+  const result: NluResult = { answers: {}, confidence: {} };
+  if (!isObject(data) || !isObject(data.answers)) return result;
+
+  for (const field of fields) {
+    if (!(field.key in data.answers)) continue;
+    const value = coerceAnswer(field, data.answers[field.key]);
+    if (value === undefined) continue;
+    result.answers[field.key] = value;
+    const confidence = isObject(data.confidence) ? data.confidence[field.key] : undefined;
+    if (typeof confidence === 'number') result.confidence[field.key] = Math.min(1, Math.max(0, confidence));
+  }
+  return result;
+}
+
+export function describeQuestion(field: FormField, t: Translator, locale: Locale): string {
+  const parts = [field.label];
+  if (field.description) parts.push(field.description);
+
+  const choices = field.options ?? (field.type === 'checkbox'
+    ? [{ value: 'true', label: t('form.yes') }, { value: 'false', label: t('form.no') }]
+    : undefined);
+  if (choices?.length) {
+    parts.push(t('chat.options', { options: choices.map(o => o.label).join(', ') }));
+  } else if (isScaleField(field)) {
+    const range = getScaleRange(field, locale);
+    parts.push(t('chat.range', { min: range.min, max: range.max }));
+  } else if (field.type === 'date') {
+    parts.push(t('chat.dateFormat'));
+  }
+
+  return parts.join('\n');
+}
+
+// Human-readable answer, with option values shown as their labels
+export function formatChatAnswer(field: FormField, answers: Record<string, any>, fields: FormField[], t: Translator, locale: Locale) {
+  const value = answers[field.key];
+  if (field.type === 'matrix' && isObject(value)) {
+    return Object.entries(value).map(([row, answer]) => {
+      const rowLabel = field.matrix?.rows.find(r => r.value === row)?.label ?? row;
+      const columns = (Array.isArray(answer) ? answer : [answer])
+        .map(c => field.matrix?.columns.find(col => col.value === c)?.label ?? String(c));
+      return `${rowLabel}: ${columns.join(', ')}`;
+    }).join('; ');
+  }
+  if (field.type === 'group' && Array.isArray(value)) {
+    return `${value.length} × ${field.repeat?.itemLabel ?? t('form.groupItem')}`;
+  }
+  return resolveTemplate(`{{${field.key}}}`, answers, fields, locale);
+}
+
+// What gets submitted: only answers on the path the respondent actually took
+export function getChatSubmission(schema: FormSchema, answers: Record<string, any>) {
+  const pathKeys = new Set(getPathFields(schema, answers).map(f => f.key));
+  return Object.fromEntries(
+    Object.entries(stripHiddenAnswers(schema.fields, answers)).filter(([key]) => pathKeys.has(key))
+  );
+}
+
+// Rebuilds the conversation state from a stored transcript (sessions.turns_json).
+// Asking again about an answered field is a correction, so it clears that answer.
+export function replayTranscript(schema: FormSchema, turns: ChatTurn[]): ChatState {
+  const state: ChatState = { answers: {}, confidence: {}, skipped: [], askedKey: null };
+
+  for (const turn of turns) {
+    if (turn.role === 'user') {
+      Object.assign(state.answers, turn.answers);
+      for (const key of Object.keys(turn.answers ?? {})) {
+        if (turn.confidence && key in turn.confidence) state.confidence[key] = turn.confidence[key];
+        else delete state.confidence[key];
+      }
+      if (turn.skipped) state.skipped.push(turn.skipped);
+    } else if (turn.fields?.length) {
+      const [key] = turn.fields;
+      delete state.answers[key];
+      delete state.confidence[key];
+      state.skipped = state.skipped.filter(k => k !== key);
+      state.askedKey = key;
+    }
+  }
+
+  // A question that was answered or skipped since is no longer pending
+  const asked = schema.fields.find(f => f.key === state.askedKey);
+  if (!asked || !isEmptyAnswer(state.answers[asked.key]) || state.skipped.includes(asked.key)) {
+    state.askedKey = getNextChatField(schema, state.answers, state.skipped)?.key ?? null;
+  }
+  return state;
+}
+
+const isChatTurn = (value: unknown): value is ChatTurn =>
+  isObject(value) && (value.role === 'assistant' || value.role === 'user') && typeof value.text === 'string';
+
+// turns_json comes back from the database untyped
+export const parseTranscript = (value: unknown): ChatTurn[] =>
+  Array.isArray(value) ? value.filter(isChatTurn) : [];
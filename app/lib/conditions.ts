@@ -0,0 +1,63 @@
+import type { Condition, FormField } from "~/components/form/FormFactory";
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+export function evaluateCondition(condition: Condition, answers: Record<string, any>): boolean {
+  if (!('field' in condition)) {
+    if (condition.all && !condition.all.every(c => evaluateCondition(c, answers))) return false;
+    if (condition.any && !condition.any.some(c => evaluateCondition(c, answers))) return false;
+    return true;
+  }
+
+  const answer = answers[condition.field];
+
+  switch (condition.operator) {
+    case 'equals':
+      if (Array.isArray(answer)) return answer.map(String).includes(String(condition.value));
+      return !isEmpty(answer) && String(answer) === String(condition.value);
+
+    case 'notEquals':
+      return !evaluateCondition({ ...condition, operator: 'equals' }, answers);
+
+    case 'in': {
+      const allowed = Array.isArray(condition.value) ? condition.value.map(String) : [String(condition.value)];
+      if (Array.isArray(answer)) return answer.some(v => allowed.includes(String(v)));
+      return !isEmpty(answer) && allowed.includes(String(answer));
+    }
+
+    case 'greaterThan': {
+      if (isEmpty(answer)) return false;
+      const left = Number(answer);
+      const right = Number(condition.value);
+      if (!Number.isNaN(left) && !Number.isNaN(right)) return left > right;
+      // Dates (YYYY-MM-DD) compare correctly as strings
+      return String(answer) > String(condition.value);
+    }
+
+    default:
+      return false;
+  }
+}
+
+// Walks the fields in order so that a field depending on a hidden one
+// sees that answer as empty, hiding whole chains of dependent questions.
+export function getVisibleFields(fields: FormField[], answers: Record<string, any>): FormField[] {
+  const effectiveAnswers = { ...answers };
+  const visible: FormField[] = [];
+
+  for (const field of fields) {
+    if (field.visibleWhen && !evaluateCondition(field.visibleWhen, effectiveAnswers)) {
+      delete effectiveAnswers[field.key];
+      continue;
+    }
+    visible.push(field);
+  }
+
+  return visible;
+}
+
+export function stripHiddenAnswers(fields: FormField[], answers: Record<string, any>): Record<string, any> {
+  const visibleKeys = new Set(getVisibleFields(fields, answers).map(f => f.key));
+  return Object.fromEntries(Object.entries(answers).filter(([key]) => visibleKeys.has(key)));
+}
@@ -0,0 +1,45 @@
+// Reads a date typed by a respondent, in any of the formats the chat suggests:
+// "1990-03-15", "15/03/1990" (day first), "15 de março de 1990", "March 15, 1990".
+// Returns it as YYYY-MM-DD, the shape date fields store.
+
+const MONTHS: Record<string, number> = {
+  janeiro: 1, fevereiro: 2, marco: 3, abril: 4, maio: 5, junho: 6,
+  julho: 7, agosto: 8, setembro: 9, outubro: 10, novembro: 11, dezembro: 12,
+  january: 1, february: 2, march: 3, april: 4, may: 5, june: 6,
+  july: 7, august: 8, september: 9, october: 10, november: 11, december: 12,
+  enero: 1, febrero: 2, marzo: 3, mayo: 5, junio: 6,
+  julio: 7, septiembre: 9, setiembre: 9, octubre: 10, noviembre: 11, diciembre: 12,
+};
+
+const monthNumber = (name: string) =>
+  MONTHS[name] ?? (name.length >= 3 ? Object.entries(MONTHS).find(([month]) => month.startsWith(name))?.[1] : undefined);
+
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Each pattern yields [year, month, day] from its match
+const PATTERNS: Array<[RegExp, (m: RegExpMatchArray) => [string, string | number | undefined, string]]> = [
+  [/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g, m => [m[1], m[2], m[3]]],
+  [/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})\b/g, m => [m[3], m[2], m[1]]],
+  [/\b(\d{1,2})(?:º|o|st|nd|rd|th)?\s+(?:de\s+)?([a-z]+)\.?,?\s+(?:de\s+|del\s+)?(\d{4})\b/g, m => [m[3], monthNumber(m[2]), m[1]]],
+  [/\b([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/g, m => [m[3], monthNumber(m[1]), m[2]]],
+];
+
+function toIsoDate(year: string, month: string | number | undefined, day: string) {
+  if (month === undefined) return undefined;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  // Rejects days past the end of the month, such as 31/02
+  if (date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) return undefined;
+  return date.toISOString().slice(0, 10);
+}
+
+// The first valid date in the text, or undefined when there is none
+export function parseDate(text: string): string | undefined {
+  const normalized = normalize(text);
+  for (const [pattern, parts] of PATTERNS) {
+    for (const match of normalized.matchAll(pattern)) {
+      const date = toIsoDate(...parts(match));
+      if (date) return date;
+    }
+  }
+  return undefined;
+}
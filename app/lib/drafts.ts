@@ -0,0 +1,122 @@
+import { supabase } from "./supabaseClient";
+import type { buildResponseItems } from "~/lib/responses";
+
+// Drafts are read and saved through the functions in supabase/sql/drafts.sql, which take
+// the response id together with its secret resume token.
+
+// The same form can be answered as a form or as a chat; each keeps its own draft
+export type DraftMode = 'form' | 'chat';
+
+// What lets a respondent reopen and save a draft; only whoever started it knows the token
+export interface DraftKey {
+  id: string;
+  token: string;
+}
+
+export interface Draft extends DraftKey {
+  answers: Record<string, unknown>;
+  // sessions.turns_json of the draft, untyped as stored
+  turns: unknown;
+}
+
+export interface DraftSession {
+  turns_json?: unknown;
+  last_field_key?: string | null;
+  field_times_json?: Record<string, number>;
+}
+
+// Draft being answered in this browser, per form and mode
+const storageKey = (mode: DraftMode, formId: string) => `formcraft:${mode}:${formId}`;
+
+const isDraftKey = (value: unknown): value is DraftKey =>
+  typeof (value as DraftKey)?.id === 'string' && typeof (value as DraftKey)?.token === 'string';
+
+export function getStoredDraft(mode: DraftMode, formId: string): DraftKey | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(mode, formId)) ?? 'null');
+    return isDraftKey(stored) ? { id: stored.id, token: stored.token } : null;
+  } catch {
+    // Drafts stored before tokens existed hold a bare id and cannot be reopened
+    return null;
+  }
+}
+
+export const storeDraft = (mode: DraftMode, formId: string, key: DraftKey) =>
+  localStorage.setItem(storageKey(mode, formId), JSON.stringify({ id: key.id, token: key.token }));
+
+export const forgetDraft = (mode: DraftMode, formId: string) => localStorage.removeItem(storageKey(mode, formId));
+
+// The draft a "continue later" link points to
+export function getLinkedDraft(searchParams: URLSearchParams): DraftKey | null {
+  const id = searchParams.get('response');
+  const token = searchParams.get('token');
+  return id && token ? { id, token } : null;
+}
+
+// Link that reopens the exact draft, on any device
+export const getResumeLink = (mode: DraftMode, formId: string, key: DraftKey, locale: string) =>
+  `${window.location.origin}/${mode}/${formId}?response=${key.id}&token=${key.token}&lang=${locale}`;
+
+// For drafts started offline; the row is created with them on the next save
+export const newDraftKey = (): DraftKey => ({ id: crypto.randomUUID(), token: crypto.randomUUID() });
+
+// Returns the draft if it belongs to the form, is still a draft and the token matches
+export async function loadDraft(formId: string, key: DraftKey): Promise<Draft | null> {
+  const { data, error } = await supabase.rpc('load_draft', {
+    p_form_id: formId,
+    p_response_id: key.id,
+    p_token: key.token,
+  });
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return { ...key, answers: data.answers ?? {}, turns: data.turns };
+}
+
+// Starts a new draft, or creates the row of a draft started offline (nothing happens if it exists)
+export async function createDraft(formId: string, key?: DraftKey): Promise<DraftKey> {
+  const { data, error } = await supabase.rpc('create_draft', {
+    p_form_id: formId,
+    p_response_id: key?.id ?? null,
+    p_token: key?.token ?? null,
+  });
+
+  if (error) throw error;
+  return { id: data.id, token: data.token };
+}
+
+// Makes the stored items of a draft match `items`: current answers are upserted and
+// answers cleared since the last save are deleted
+export async function saveResponseItems(key: DraftKey, items: ReturnType<typeof buildResponseItems>) {
+  const { error } = await supabase.rpc('save_draft_items', {
+    p_response_id: key.id,
+    p_token: key.token,
+    p_items: items.map(({ field_key, value_json, valid, confidence }) => ({ field_key, value_json, valid, confidence })),
+  });
+
+  if (error) throw error;
+}
+
+// Updates only the session columns given; returns the stored activity
+export async function saveDraftSession(key: DraftKey, session: DraftSession): Promise<DraftSession> {
+  const { data, error } = await supabase.rpc('save_draft_session', {
+    p_response_id: key.id,
+    p_token: key.token,
+    p_session: session,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// Marks the draft as submitted; does nothing if it already was
+export async function submitDraft(key: DraftKey, locale: string) {
+  const { error } = await supabase.rpc('submit_draft', {
+    p_response_id: key.id,
+    p_token: key.token,
+    p_locale: locale,
+  });
+
+  if (error) throw error;
+}
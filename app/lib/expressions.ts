@@ -0,0 +1,362 @@
+import type { FormField } from "~/components/form/FormFactory";
+
+// A small expression language over answers, parsed and evaluated without eval/Function.
+// Supports numbers, 'strings', true/false/null, field keys (with `group.child` paths),
+// arithmetic (+ - * / %), comparisons (== != < <= > >=), logic (&& || !),
+// the ternary operator and a fixed set of functions (see FUNCTIONS below).
+
+export class ExpressionError extends Error {}
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'identifier'; value: string }
+  | { type: 'operator'; value: string };
+
+type Node =
+  | { type: 'literal'; value: unknown }
+  | { type: 'identifier'; path: string[] }
+  | { type: 'unary'; operator: string; argument: Node }
+  | { type: 'binary'; operator: string; left: Node; right: Node }
+  | { type: 'conditional'; test: Node; consequent: Node; alternate: Node }
+  | { type: 'call'; name: string; args: Node[] };
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '<', '>', '!', '(', ')', ',', '?', ':'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = source.slice(i).match(/^\d*\.?\d+(e[+-]?\d+)?/i)!;
+      tokens.push({ type: 'number', value: Number(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        value += source[i++];
+      }
+      if (source[i] !== char) throw new ExpressionError('Unterminated string');
+      i++;
+      tokens.push({ type: 'string', value });
+      continue;
+    }
+
+    const identifier = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*/);
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0] });
+      i += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator });
+      i += operator.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character "${char}"`);
+  }
+
+  return tokens;
+}
+
+function parse(source: string): Node {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (...values: string[]) => {
+    const token = peek();
+    return token?.type === 'operator' && values.includes(token.value);
+  };
+  const expect = (value: string) => {
+    if (!isOperator(value)) throw new ExpressionError(`Expected "${value}"`);
+    position++;
+  };
+
+  const binary = (next: () => Node, operators: string[]) => (): Node => {
+    let left = next();
+    while (isOperator(...operators)) {
+      const operator = (tokens[position++] as { value: string }).value;
+      left = { type: 'binary', operator, left, right: next() };
+    }
+    return left;
+  };
+
+  const primary = (): Node => {
+    const token = tokens[position++];
+    if (!token) throw new ExpressionError('Unexpected end of expression');
+
+    if (token.type === 'number' || token.type === 'string') return { type: 'literal', value: token.value };
+
+    if (token.type === 'identifier') {
+      if (token.value === 'true') return { type: 'literal', value: true };
+      if (token.value === 'false') return { type: 'literal', value: false };
+      if (token.value === 'null') return { type: 'literal', value: null };
+
+      if (isOperator('(')) {
+        position++;
+        const args: Node[] = [];
+        if (!isOperator(')')) {
+          do {
+            args.push(conditional());
+          } while (isOperator(',') && ++position);
+        }
+        expect(')');
+        return { type: 'call', name: token.value, args };
+      }
+
+      return { type: 'identifier', path: token.value.split('.') };
+    }
+
+    if (token.value === '(') {
+      const inner = conditional();
+      expect(')');
+      return inner;
+    }
+
+    throw new ExpressionError(`Unexpected "${token.value}"`);
+  };
+
+  const unary = (): Node => {
+    if (isOperator('!', '-')) {
+      const operator = (tokens[position++] as { value: string }).value;
+      return { type: 'unary', operator, argument: unary() };
+    }
+    return primary();
+  };
+
+  const multiplicative = binary(unary, ['*', '/', '%']);
+  const additive = binary(multiplicative, ['+', '-']);
+  const relational = binary(additive, ['<', '<=', '>', '>=']);
+  const equality = binary(relational, ['==', '!=']);
+  const and = binary(equality, ['&&']);
+  const or = binary(and, ['||']);
+
+  function conditional(): Node {
+    const test = or();
+    if (!isOperator('?')) return test;
+    position++;
+    const consequent = conditional();
+    expect(':');
+    return { type: 'conditional', test, consequent, alternate: conditional() };
+  }
+
+  const ast = conditional();
+  if (position < tokens.length) throw new ExpressionError('Unexpected tokens at end of expression');
+  return ast;
+}
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === '';
+
+const toNumber = (value: unknown): number | null => {
+  if (isMissing(value)) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const number = Number(value);
+  return Number.isNaN(number) ? null : number;
+};
+
+const toDate = (value: unknown): Date | null => {
+  if (isMissing(value)) return null;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const flatten = (args: unknown[]): unknown[] => args.flatMap(a => Array.isArray(a) ? flatten(a) : [a]);
+
+const numbers = (args: unknown[]) =>
+  flatten(args).map(toNumber).filter((n): n is number => n !== null);
+
+const FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  round: (value, decimals) => {
+    const n = toNumber(value);
+    const factor = 10 ** (toNumber(decimals) ?? 0);
+    return n === null ? null : Math.round(n * factor) / factor;
+  },
+  floor: (value) => { const n = toNumber(value); return n === null ? null : Math.floor(n); },
+  ceil: (value) => { const n = toNumber(value); return n === null ? null : Math.ceil(n); },
+  abs: (value) => { const n = toNumber(value); return n === null ? null : Math.abs(n); },
+  min: (...args) => { const ns = numbers(args); return ns.length ? Math.min(...ns) : null; },
+  max: (...args) => { const ns = numbers(args); return ns.length ? Math.max(...ns) : null; },
+  sum: (...args) => numbers(args).reduce((total, n) => total + n, 0),
+  avg: (...args) => { const ns = numbers(args); return ns.length ? ns.reduce((t, n) => t + n, 0) / ns.length : null; },
+  count: (...args) => flatten(args).filter(v => !isMissing(v)).length,
+  len: (value) => Array.isArray(value) ? value.length : isMissing(value) ? 0 : String(value).length,
+  number: (value) => toNumber(value),
+  text: (value) => isMissing(value) ? '' : String(value),
+  coalesce: (...args) => args.find(a => !isMissing(a)) ?? null,
+  if: (test, consequent, alternate) => test ? consequent : alternate,
+  contains: (list, item) => Array.isArray(list) ? list.map(String).includes(String(item)) : String(list ?? '').includes(String(item)),
+  today: () => new Date().toISOString().slice(0, 10),
+  // Whole days from `from` to `to` (to defaults to today)
+  days: (from, to) => {
+    const start = toDate(from);
+    const end = to === undefined ? new Date() : toDate(to);
+    if (!start || !end) return null;
+    return Math.floor((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
+  },
+  // Age in whole years at `on` (defaults to today)
+  age: (birth, on) => {
+    const start = toDate(birth);
+    const end = on === undefined ? new Date() : toDate(on);
+    if (!start || !end) return null;
+    let years = end.getUTCFullYear() - start.getUTCFullYear();
+    const beforeBirthday = end.getUTCMonth() < start.getUTCMonth() ||
+      (end.getUTCMonth() === start.getUTCMonth() && end.getUTCDate() < start.getUTCDate());
+    if (beforeBirthday) years--;
+    return years;
+  },
+};
+
+function resolvePath(answers: Record<string, any>, path: string[]): unknown {
+  let value: unknown = answers;
+  for (const segment of path) {
+    if (Array.isArray(value)) {
+      // `group.child` yields the child's value from every instance
+      value = value.map(item => item && typeof item === 'object' && Object.hasOwn(item, segment) ? item[segment] : null);
+    } else if (value && typeof value === 'object' && Object.hasOwn(value, segment)) {
+      value = (value as Record<string, unknown>)[segment];
+    } else {
+      return null;
+    }
+  }
+  return value ?? null;
+}
+
+const looselyEqual = (a: unknown, b: unknown) => {
+  if (isMissing(a) || isMissing(b)) return isMissing(a) && isMissing(b);
+  return typeof a === typeof b ? a === b : String(a) === String(b);
+};
+
+function evaluateNode(node: Node, answers: Record<string, any>): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier':
+      return resolvePath(answers, node.path);
+
+    case 'unary': {
+      const value = evaluateNode(node.argument, answers);
+      if (node.operator === '!') return !value;
+      const n = toNumber(value);
+      return n === null ? null : -n;
+    }
+
+    case 'conditional':
+      return evaluateNode(node.test, answers)
+        ? evaluateNode(node.consequent, answers)
+        : evaluateNode(node.alternate, answers);
+
+    case 'call': {
+      const fn = Object.hasOwn(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined;
+      if (!fn) throw new ExpressionError(`Unknown function "${node.name}"`);
+      return fn(...node.args.map(arg => evaluateNode(arg, answers)));
+    }
+
+    case 'binary': {
+      if (node.operator === '&&') return evaluateNode(node.left, answers) && evaluateNode(node.right, answers);
+      if (node.operator === '||') return evaluateNode(node.left, answers) || evaluateNode(node.right, answers);
+
+      const left = evaluateNode(node.left, answers);
+      const right = evaluateNode(node.right, answers);
+
+      switch (node.operator) {
+        case '==': return looselyEqual(left, right);
+        case '!=': return !looselyEqual(left, right);
+      }
+
+      if (['<', '<=', '>', '>='].includes(node.operator)) {
+        if (isMissing(left) || isMissing(right)) return false;
+        const l = toNumber(left);
+        const r = toNumber(right);
+        // Non-numeric values (e.g. YYYY-MM-DD dates) compare as strings
+        const [a, b] = l !== null && r !== null ? [l, r] : [String(left), String(right)];
+        switch (node.operator) {
+          case '<': return a < b;
+          case '<=': return a <= b;
+          case '>': return a > b;
+          default: return a >= b;
+        }
+      }
+
+      if (node.operator === '+' && (typeof left === 'string' || typeof right === 'string') &&
+        (toNumber(left) === null || toNumber(right) === null)) {
+        return `${left ?? ''}${right ?? ''}`;
+      }
+
+      const l = toNumber(left);
+      const r = toNumber(right);
+      if (l === null || r === null) return null;
+
+      switch (node.operator) {
+        case '+': return l + r;
+        case '-': return l - r;
+        case '*': return l * r;
+        case '/': return r === 0 ? null : l / r;
+        case '%': return r === 0 ? null : l % r;
+      }
+      throw new ExpressionError(`Unknown operator "${node.operator}"`);
+    }
+  }
+}
+
+const astCache = new Map<string, Node>();
+
+function compile(source: string): Node {
+  let ast = astCache.get(source);
+  if (!ast) {
+    ast = parse(source);
+    astCache.set(source, ast);
+  }
+  return ast;
+}
+
+export function evaluateExpression(source: string, answers: Record<string, any>): unknown {
+  return evaluateNode(compile(source), answers);
+}
+
+// Returns the error message for an invalid expression, or null when it parses.
+export function checkExpression(source: string): string | null {
+  try {
+    compile(source);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// Fills in calculated fields in order, so one calculation may use the result of an earlier one.
+export function withCalculatedValues(fields: FormField[], answers: Record<string, any>): Record<string, any> {
+  const result = { ...answers };
+
+  for (const field of fields) {
+    if (field.type !== 'calculated' || !field.calculation?.expression) continue;
+    try {
+      const value = evaluateExpression(field.calculation.expression, result);
+      result[field.key] = typeof value === 'number'
+        ? (Number.isFinite(value) ? value : null)
+        : value;
+    } catch (error) {
+      console.error(`Error evaluating calculated field "${field.key}":`, error);
+      result[field.key] = null;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,191 @@
+import type { Condition, FormField, FormSchema } from "~/components/form/FormFactory";
+
+export type FieldType = FormField['type'];
+
+export const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+  text: 'Texto curto',
+  textarea: 'Texto longo',
+  email: 'E-mail',
+  tel: 'Telefone',
+  number: 'Número',
+  date: 'Data',
+  select: 'Lista suspensa',
+  radio: 'Escolha única',
+  multiselect: 'Múltipla escolha',
+  checkbox: 'Caixa de seleção',
+  rating: 'Avaliação (estrelas)',
+  nps: 'NPS',
+  scale: 'Escala',
+  slider: 'Controle deslizante',
+  matrix: 'Matriz',
+  group: 'Grupo repetível',
+  file: 'Arquivo',
+  calculated: 'Calculado',
+};
+
+export const OPTION_TYPES: FieldType[] = ['select', 'radio', 'multiselect'];
+export const TEXT_TYPES: FieldType[] = ['text', 'textarea', 'email', 'tel'];
+
+// "Nome completo" -> "nome_completo"
+export function toFieldKey(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '') || 'campo';
+}
+
+export function uniqueKey(base: string, taken: string[]) {
+  let key = base;
+  for (let i = 2; taken.includes(key); i++) key = `${base}_${i}`;
+  return key;
+}
+
+const defaultOptions = () => [
+  { value: 'opcao_1', label: 'Opção 1' },
+  { value: 'opcao_2', label: 'Opção 2' },
+];
+
+// Adds the settings a type needs to render (options, matrix rows, ...) when the field lacks them
+function withTypeDefaults(field: FormField): FormField {
+  switch (field.type) {
+    case 'select':
+    case 'radio':
+    case 'multiselect':
+      return { ...field, options: field.options?.length ? field.options : defaultOptions() };
+    case 'matrix':
+      return {
+        ...field,
+        matrix: field.matrix ?? {
+          rows: [{ value: 'linha_1', label: 'Linha 1' }],
+          columns: defaultOptions(),
+        },
+      };
+    case 'group':
+      return {
+        ...field,
+        fields: field.fields?.length ? field.fields : [{ key: 'item', type: 'text', label: 'Item', required: false }],
+      };
+    case 'calculated':
+      return { ...field, required: false, calculation: field.calculation ?? { expression: '' } };
+    default:
+      return field;
+  }
+}
+
+export function createField(type: FieldType, fields: FormField[]): FormField {
+  const label = FIELD_TYPE_LABELS[type];
+  return withTypeDefaults({
+    key: uniqueKey(toFieldKey(label), fields.map(f => f.key)),
+    type,
+    label,
+    required: false,
+  });
+}
+
+// Settings that only make sense for the old type are dropped; label, key and text stay
+export function changeFieldType(field: FormField, type: FieldType): FormField {
+  if (type === field.type) return field;
+
+  const { options, matrix, fields, repeat, file, scale, calculation, validation, ...common } = field;
+  const keepsOptions = OPTION_TYPES.includes(type);
+  const keepsText = TEXT_TYPES.includes(type) && TEXT_TYPES.includes(field.type);
+
+  return withTypeDefaults({
+    ...common,
+    type,
+    options: keepsOptions ? options : undefined,
+    validation: keepsText ? validation : undefined,
+  });
+}
+
+export function updateField(schema: FormSchema, key: string, field: FormField): FormSchema {
+  return { ...schema, fields: schema.fields.map(f => f.key === key ? field : f) };
+}
+
+export function addField(schema: FormSchema, type: FieldType): FormSchema {
+  return { ...schema, fields: [...schema.fields, createField(type, schema.fields)] };
+}
+
+// Section field lists follow the new global order, so reordering works in multi-page forms too
+export function moveField(schema: FormSchema, from: number, to: number): FormSchema {
+  if (from === to || to < 0 || to >= schema.fields.length) return schema;
+
+  const fields = [...schema.fields];
+  const [moved] = fields.splice(from, 1);
+  fields.splice(to, 0, moved);
+  const order = fields.map(f => f.key);
+
+  return {
+    ...schema,
+    fields,
+    sections: schema.sections?.map(section => ({
+      ...section,
+      fields: [...section.fields].sort((a, b) => order.indexOf(a) - order.indexOf(b)),
+    })),
+  };
+}
+
+const omitKey = <T>(record: Record<string, T> | undefined, key: string) => {
+  if (!record) return record;
+  const { [key]: _, ...rest } = record;
+  return rest;
+};
+
+export function removeField(schema: FormSchema, key: string): FormSchema {
+  return {
+    ...schema,
+    fields: schema.fields.filter(f => f.key !== key),
+    sections: schema.sections?.map(section => ({
+      ...section,
+      fields: section.fields.filter(k => k !== key),
+    })),
+    translations: schema.translations && Object.fromEntries(
+      Object.entries(schema.translations).map(([locale, translation]) => [
+        locale,
+        { ...translation, fields: omitKey(translation?.fields, key) },
+      ])
+    ),
+  };
+}
+
+function renameInCondition(condition: Condition, from: string, to: string): Condition {
+  if ('field' in condition) {
+    return condition.field === from ? { ...condition, field: to } : condition;
+  }
+  return {
+    all: condition.all?.map(c => renameInCondition(c, from, to)),
+    any: condition.any?.map(c => renameInCondition(c, from, to)),
+  };
+}
+
+// Renames a field and every structural reference to it (sections, jumps, conditions, translations).
+// Expressions and {{key}} templates are free text and are left for the author to update.
+export function renameField(schema: FormSchema, from: string, to: string): FormSchema {
+  if (from === to) return schema;
+
+  const rename = (condition?: Condition) => condition && renameInCondition(condition, from, to);
+
+  return {
+    ...schema,
+    fields: schema.fields.map(f => ({
+      ...f,
+      key: f.key === from ? to : f.key,
+      visibleWhen: rename(f.visibleWhen),
+    })),
+    sections: schema.sections?.map(section => ({
+      ...section,
+      fields: section.fields.map(k => k === from ? to : k),
+      jumps: section.jumps?.map(jump => ({ ...jump, when: rename(jump.when)! })),
+    })),
+    translations: schema.translations && Object.fromEntries(
+      Object.entries(schema.translations).map(([locale, translation]) => {
+        const fieldTranslation = translation?.fields?.[from];
+        return [locale, fieldTranslation
+          ? { ...translation, fields: { ...omitKey(translation.fields, from), [to]: fieldTranslation } }
+          : translation];
+      })
+    ),
+  };
+}
@@ -0,0 +1,138 @@
+import type { FormSchema } from "~/components/form/FormFactory";
+
+export interface FormTemplate {
+  id: string;
+  name: string;
+  description: string;
+  schema: FormSchema;
+  // Built-in templates ship with the app; the others live in the form_templates table
+  builtIn?: boolean;
+}
+
+const settings: FormSchema['settings'] = { allowAnonymous: true, showProgress: true, submitText: 'Enviar' };
+
+export const BUILT_IN_TEMPLATES: FormTemplate[] = [
+  {
+    id: 'builtin-nps',
+    name: 'Pesquisa NPS',
+    description: 'Nota de 0 a 10, motivo da nota e contato opcional.',
+    builtIn: true,
+    schema: {
+      title: 'Pesquisa de satisfação',
+      description: 'Leva menos de um minuto.',
+      fields: [
+        { key: 'nps', type: 'nps', label: 'Qual a probabilidade de você nos recomendar a um amigo ou colega?', required: true },
+        {
+          key: 'motivo',
+          type: 'textarea',
+          label: 'O que mais influenciou a sua nota?',
+          required: false,
+          validation: { maxLength: 1000 },
+        },
+        {
+          key: 'melhorias',
+          type: 'textarea',
+          label: 'O que podemos fazer para chegar a 10?',
+          required: false,
+          visibleWhen: { field: 'nps', operator: 'in', value: ['0', '1', '2', '3', '4', '5', '6', '7', '8'] },
+        },
+        { key: 'contato_ok', type: 'checkbox', label: 'Aceito ser contatado sobre a minha resposta', required: false },
+        {
+          key: 'email',
+          type: 'email',
+          label: 'E-mail',
+          required: true,
+          visibleWhen: { field: 'contato_ok', operator: 'equals', value: true },
+        },
+      ],
+      settings: { ...settings, completionMessage: 'Obrigado pela sua avaliação!' },
+    },
+  },
+  {
+    id: 'builtin-event',
+    name: 'Inscrição em evento',
+    description: 'Dados do participante, sessões de interesse e restrições alimentares.',
+    builtIn: true,
+    schema: {
+      title: 'Inscrição no evento',
+      description: 'Garanta a sua vaga preenchendo os dados abaixo.',
+      fields: [
+        { key: 'nome', type: 'text', label: 'Nome completo', required: true, validation: { minLength: 3 } },
+        { key: 'email', type: 'email', label: 'E-mail', required: true },
+        { key: 'telefone', type: 'tel', label: 'Telefone', required: false },
+        { key: 'empresa', type: 'text', label: 'Empresa', required: false },
+        {
+          key: 'ingresso',
+          type: 'radio',
+          label: 'Tipo de ingresso',
+          required: true,
+          options: [
+            { value: 'presencial', label: 'Presencial' },
+            { value: 'online', label: 'Online' },
+          ],
+        },
+        {
+          key: 'sessoes',
+          type: 'multiselect',
+          label: 'Sessões de interesse',
+          required: false,
+          options: [
+            { value: 'abertura', label: 'Abertura' },
+            { value: 'workshops', label: 'Workshops' },
+            { value: 'paineis', label: 'Painéis' },
+            { value: 'networking', label: 'Networking' },
+          ],
+        },
+        {
+          key: 'restricoes',
+          type: 'text',
+          label: 'Restrições alimentares',
+          required: false,
+          visibleWhen: { field: 'ingresso', operator: 'equals', value: 'presencial' },
+        },
+      ],
+      settings: { ...settings, submitText: 'Inscrever-me', completionMessage: 'Inscrição confirmada, {{nome}}! Até lá.' },
+    },
+  },
+  {
+    id: 'builtin-lead',
+    name: 'Captura de leads',
+    description: 'Contato, empresa, porte e interesse para o time comercial.',
+    builtIn: true,
+    schema: {
+      title: 'Fale com a gente',
+      description: 'Conte um pouco sobre você e retornaremos em breve.',
+      fields: [
+        { key: 'nome', type: 'text', label: 'Nome', required: true },
+        { key: 'email', type: 'email', label: 'E-mail corporativo', required: true },
+        { key: 'empresa', type: 'text', label: 'Empresa', required: true },
+        {
+          key: 'porte',
+          type: 'select',
+          label: 'Tamanho da empresa',
+          required: true,
+          options: [
+            { value: '1_10', label: '1 a 10 pessoas' },
+            { value: '11_50', label: '11 a 50 pessoas' },
+            { value: '51_200', label: '51 a 200 pessoas' },
+            { value: '200_mais', label: 'Mais de 200 pessoas' },
+          ],
+        },
+        {
+          key: 'interesse',
+          type: 'select',
+          label: 'Principal interesse',
+          required: true,
+          options: [
+            { value: 'demo', label: 'Agendar uma demonstração' },
+            { value: 'precos', label: 'Saber sobre preços' },
+            { value: 'parceria', label: 'Parcerias' },
+            { value: 'outro', label: 'Outro' },
+          ],
+        },
+        { key: 'mensagem', type: 'textarea', label: 'Mensagem', required: false },
+      ],
+      settings: { ...settings, completionMessage: 'Obrigado, {{nome}}! Nosso time entrará em contato.' },
+    },
+  },
+];
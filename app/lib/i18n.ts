@@ -0,0 +1,323 @@
+export const LOCALES = ['pt-BR', 'en', 'es'] as const;
+export type Locale = typeof LOCALES[number];
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+// Each language's own name, for language pickers
+export const LOCALE_NAMES: Record<Locale, string> = {
+  'pt-BR': 'Português',
+  en: 'English',
+  es: 'Español',
+};
+
+const ptBR = {
+  // Validation
+  'validation.required': '{label} é obrigatório',
+  'validation.minLength': '{label} deve ter pelo menos {limit} caracteres',
+  'validation.maxLength': '{label} deve ter no máximo {limit} caracteres',
+  'validation.min': '{label} deve ser pelo menos {limit}',
+  'validation.max': '{label} deve ser no máximo {limit}',
+  'validation.pattern': '{label} tem formato inválido',
+  'validation.invalid': '{label} tem valor inválido',
+  'validation.matrixRows': '{label}: responda todas as linhas',
+  'validation.groupMinItems': '{label} requer pelo menos {limit} item(ns)',
+  'validation.groupMaxItems': '{label} permite no máximo {limit} item(ns)',
+  'validation.groupItems': '{label}: verifique os itens preenchidos',
+  'validation.fileMaxItems': '{label} permite no máximo {limit} arquivo(s)',
+  'validation.fileMaxSize': '{label} excede o tamanho máximo de {limit} MB',
+  'validation.fileType': '{label} tem tipo de arquivo não permitido',
+
+  // Form
+  'form.progress': 'Progresso',
+  'form.next': 'Próximo',
+  'form.back': 'Voltar',
+  'form.sending': 'Enviando...',
+  'form.draftSaving': 'Salvando rascunho...',
+  'form.draftSaved': 'Rascunho salvo',
+  'form.draftError': 'Não foi possível salvar o rascunho',
+  'form.draftLocal': 'Salvo neste dispositivo',
+  'form.submit': 'Enviar',
+  'form.selectPlaceholder': 'Selecione {label}',
+  'form.yes': 'Sim',
+  'form.no': 'Não',
+  'form.ratingOf': '{value} de {max}',
+  'form.npsMin': 'Nada provável',
+  'form.npsMax': 'Extremamente provável',
+  'form.groupItem': 'Item',
+  'form.groupAdd': 'Adicionar {item}',
+  'form.groupRemove': 'Remover',
+  'form.fileDrop': 'Arraste arquivos aqui ou clique para selecionar',
+  'form.fileUpTo': 'até {size} MB',
+  'form.fileMaxCount': 'máx. {count} arquivo(s)',
+  'form.fileTooMany': 'Máximo de {count} arquivo(s)',
+  'form.fileTypeRejected': 'Tipo de arquivo não permitido: {name}',
+  'form.fileTooLarge': '{name} excede {size} MB',
+  'form.fileUploadError': 'Erro ao enviar {name}',
+  'form.filePreviewOnly': 'O envio de arquivos fica disponível no formulário publicado.',
+
+  // /form/:id
+  'route.loading': 'Carregando formulário...',
+  'route.notFound': 'Formulário não encontrado',
+  'route.notFoundDescription': 'O formulário que você está procurando não existe ou não está disponível.',
+  'route.backHome': 'Voltar ao início',
+  'route.back': 'Voltar',
+  'route.submitted': 'Resposta enviada com sucesso!',
+  'route.submitError': 'Erro ao enviar resposta',
+  'route.completion': 'Obrigado! Sua resposta foi enviada.',
+  'route.chatMode': 'Responder por chat',
+  'route.formMode': 'Responder no formulário',
+  'route.resumeLink': 'Continuar depois',
+  'route.linkCopied': 'Link copiado. Abra-o em qualquer dispositivo para continuar de onde parou.',
+  'route.offline': 'Sem conexão: usando a cópia deste formulário salva no dispositivo.',
+  'route.queued': 'Sem conexão: sua resposta foi guardada neste dispositivo e será enviada automaticamente quando a conexão voltar.',
+  'route.synced': 'Sua resposta foi sincronizada.',
+  'route.syncFailed': 'Não foi possível enviar sua resposta: o formulário não a aceita mais.',
+  'queue.pending': '{count} resposta(s) aguardando conexão',
+  'queue.syncing': 'Enviando respostas pendentes...',
+  'queue.synced': 'Respostas pendentes enviadas',
+  'queue.failed': '{count} resposta(s) guardada(s) neste dispositivo não puderam ser enviadas',
+  'queue.dismiss': 'Dispensar',
+
+  // /chat/:id
+  'chat.greeting': 'Olá! Vou fazer algumas perguntas para preencher "{title}". Responda com suas palavras.',
+  'chat.options': 'Opções: {options}',
+  'chat.range': 'Responda com um número de {min} a {max}.',
+  'chat.dateFormat': 'Pode escrever a data como preferir, por exemplo "15 de março de 1990".',
+  'chat.noted': 'Anotado: {answers}.',
+  'chat.notUnderstood': 'Não consegui entender. Pode responder de outra forma?',
+  'chat.correcting': 'Certo, vamos corrigir.',
+  'chat.confirm': "Entendi '{value}' como {label}, correto?",
+  'chat.done': 'Pronto! Confira suas respostas ao lado e envie quando quiser.',
+  'chat.placeholder': 'Digite sua resposta...',
+  'chat.send': 'Enviar',
+  'chat.skip': 'Pular',
+  'chat.thinking': 'Pensando...',
+  'chat.answers': 'Suas respostas',
+  'chat.noAnswers': 'Nenhuma resposta ainda.',
+  'chat.correct': 'Corrigir',
+  'chat.submit': 'Enviar respostas',
+  'chat.formOnlyNotice': 'Este formulário tem campos de arquivo, grades ou grupos, que só podem ser preenchidos no formulário padrão.',
+};
+
+export type MessageKey = keyof typeof ptBR;
+
+const en: Record<MessageKey, string> = {
+  'validation.required': '{label} is required',
+  'validation.minLength': '{label} must be at least {limit} characters',
+  'validation.maxLength': '{label} must be at most {limit} characters',
+  'validation.min': '{label} must be at least {limit}',
+  'validation.max': '{label} must be at most {limit}',
+  'validation.pattern': '{label} has an invalid format',
+  'validation.invalid': '{label} has an invalid value',
+  'validation.matrixRows': '{label}: please answer every row',
+  'validation.groupMinItems': '{label} needs at least {limit} item(s)',
+  'validation.groupMaxItems': '{label} allows at most {limit} item(s)',
+  'validation.groupItems': '{label}: please check the items',
+  'validation.fileMaxItems': '{label} allows at most {limit} file(s)',
+  'validation.fileMaxSize': '{label} exceeds the maximum size of {limit} MB',
+  'validation.fileType': '{label} has a file type that is not allowed',
+
+  'form.progress': 'Progress',
+  'form.next': 'Next',
+  'form.back': 'Back',
+  'form.sending': 'Sending...',
+  'form.draftSaving': 'Saving draft...',
+  'form.draftSaved': 'Draft saved',
+  'form.draftError': 'Could not save the draft',
+  'form.draftLocal': 'Saved on this device',
+  'form.submit': 'Submit',
+  'form.selectPlaceholder': 'Select {label}',
+  'form.yes': 'Yes',
+  'form.no': 'No',
+  'form.ratingOf': '{value} of {max}',
+  'form.npsMin': 'Not at all likely',
+  'form.npsMax': 'Extremely likely',
+  'form.groupItem': 'Item',
+  'form.groupAdd': 'Add {item}',
+  'form.groupRemove': 'Remove',
+  'form.fileDrop': 'Drag files here or click to choose',
+  'form.fileUpTo': 'up to {size} MB',
+  'form.fileMaxCount': 'max. {count} file(s)',
+  'form.fileTooMany': 'At most {count} file(s)',
+  'form.fileTypeRejected': 'File type not allowed: {name}',
+  'form.fileTooLarge': '{name} exceeds {size} MB',
+  'form.fileUploadError': 'Could not upload {name}',
+  'form.filePreviewOnly': 'File uploads are available on the published form.',
+
+  'route.loading': 'Loading form...',
+  'route.notFound': 'Form not found',
+  'route.notFoundDescription': 'The form you are looking for does not exist or is not available.',
+  'route.backHome': 'Back to home',
+  'route.back': 'Back',
+  'route.submitted': 'Response sent successfully!',
+  'route.submitError': 'Could not send your response',
+  'route.completion': 'Thank you! Your response has been sent.',
+  'route.chatMode': 'Answer by chat',
+  'route.formMode': 'Answer in the form',
+  'route.resumeLink': 'Continue later',
+  'route.linkCopied': 'Link copied. Open it on any device to pick up where you left off.',
+  'route.offline': 'Offline: using the copy of this form saved on this device.',
+  'route.queued': 'Offline: your response was kept on this device and will be sent automatically once the connection is back.',
+  'route.synced': 'Your response has been synced.',
+  'route.syncFailed': 'Your response could not be sent: the form no longer accepts it.',
+  'queue.pending': '{count} response(s) waiting for a connection',
+  'queue.syncing': 'Sending pending responses...',
+  'queue.synced': 'Pending responses sent',
+  'queue.failed': '{count} response(s) kept on this device could not be sent',
+  'queue.dismiss': 'Dismiss',
+
+  'chat.greeting': 'Hi! I will ask a few questions to fill in "{title}". Answer in your own words.',
+  'chat.options': 'Options: {options}',
+  'chat.range': 'Answer with a number from {min} to {max}.',
+  'chat.dateFormat': 'Write the date however you like, for example "March 15, 1990".',
+  'chat.noted': 'Got it: {answers}.',
+  'chat.notUnderstood': 'I could not understand that. Could you answer another way?',
+  'chat.correcting': 'Sure, let us fix that.',
+  'chat.confirm': "I understood '{value}' as {label}, is that right?",
+  'chat.done': 'All set! Check your answers and send them whenever you are ready.',
+  'chat.placeholder': 'Type your answer...',
+  'chat.send': 'Send',
+  'chat.skip': 'Skip',
+  'chat.thinking': 'Thinking...',
+  'chat.answers': 'Your answers',
+  'chat.noAnswers': 'No answers yet.',
+  'chat.correct': 'Fix',
+  'chat.submit': 'Send answers',
+  'chat.formOnlyNotice': 'This form has file, grid or group fields, which can only be filled in through the standard form.',
+};
+
+const es: Record<MessageKey, string> = {
+  'validation.required': '{label} es obligatorio',
+  'validation.minLength': '{label} debe tener al menos {limit} caracteres',
+  'validation.maxLength': '{label} debe tener como máximo {limit} caracteres',
+  'validation.min': '{label} debe ser al menos {limit}',
+  'validation.max': '{label} debe ser como máximo {limit}',
+  'validation.pattern': '{label} tiene un formato inválido',
+  'validation.invalid': '{label} tiene un valor inválido',
+  'validation.matrixRows': '{label}: responde todas las filas',
+  'validation.groupMinItems': '{label} requiere al menos {limit} elemento(s)',
+  'validation.groupMaxItems': '{label} permite como máximo {limit} elemento(s)',
+  'validation.groupItems': '{label}: revisa los elementos completados',
+  'validation.fileMaxItems': '{label} permite como máximo {limit} archivo(s)',
+  'validation.fileMaxSize': '{label} supera el tamaño máximo de {limit} MB',
+  'validation.fileType': '{label} tiene un tipo de archivo no permitido',
+
+  'form.progress': 'Progreso',
+  'form.next': 'Siguiente',
+  'form.back': 'Atrás',
+  'form.sending': 'Enviando...',
+  'form.draftSaving': 'Guardando borrador...',
+  'form.draftSaved': 'Borrador guardado',
+  'form.draftError': 'No se pudo guardar el borrador',
+  'form.draftLocal': 'Guardado en este dispositivo',
+  'form.submit': 'Enviar',
+  'form.selectPlaceholder': 'Selecciona {label}',
+  'form.yes': 'Sí',
+  'form.no': 'No',
+  'form.ratingOf': '{value} de {max}',
+  'form.npsMin': 'Nada probable',
+  'form.npsMax': 'Extremadamente probable',
+  'form.groupItem': 'Elemento',
+  'form.groupAdd': 'Agregar {item}',
+  'form.groupRemove': 'Quitar',
+  'form.fileDrop': 'Arrastra archivos aquí o haz clic para seleccionar',
+  'form.fileUpTo': 'hasta {size} MB',
+  'form.fileMaxCount': 'máx. {count} archivo(s)',
+  'form.fileTooMany': 'Máximo de {count} archivo(s)',
+  'form.fileTypeRejected': 'Tipo de archivo no permitido: {name}',
+  'form.fileTooLarge': '{name} supera {size} MB',
+  'form.fileUploadError': 'Error al subir {name}',
+  'form.filePreviewOnly': 'La subida de archivos está disponible en el formulario publicado.',
+
+  'route.loading': 'Cargando formulario...',
+  'route.notFound': 'Formulario no encontrado',
+  'route.notFoundDescription': 'El formulario que buscas no existe o no está disponible.',
+  'route.backHome': 'Volver al inicio',
+  'route.back': 'Atrás',
+  'route.submitted': '¡Respuesta enviada con éxito!',
+  'route.submitError': 'Error al enviar la respuesta',
+  'route.completion': '¡Gracias! Tu respuesta fue enviada.',
+  'route.chatMode': 'Responder por chat',
+  'route.formMode': 'Responder en el formulario',
+  'route.resumeLink': 'Continuar después',
+  'route.linkCopied': 'Enlace copiado. Ábrelo en cualquier dispositivo para continuar donde lo dejaste.',
+  'route.offline': 'Sin conexión: usando la copia de este formulario guardada en el dispositivo.',
+  'route.queued': 'Sin conexión: tu respuesta se guardó en este dispositivo y se enviará automáticamente cuando vuelva la conexión.',
+  'route.synced': 'Tu respuesta fue sincronizada.',
+  'route.syncFailed': 'No se pudo enviar tu respuesta: el formulario ya no la acepta.',
+  'queue.pending': '{count} respuesta(s) esperando conexión',
+  'queue.syncing': 'Enviando respuestas pendientes...',
+  'queue.synced': 'Respuestas pendientes enviadas',
+  'queue.failed': 'No se pudo enviar {count} respuesta(s) guardada(s) en este dispositivo',
+  'queue.dismiss': 'Descartar',
+
+  'chat.greeting': '¡Hola! Haré algunas preguntas para completar "{title}". Responde con tus palabras.',
+  'chat.options': 'Opciones: {options}',
+  'chat.range': 'Responde con un número del {min} al {max}.',
+  'chat.dateFormat': 'Escribe la fecha como prefieras, por ejemplo "15 de marzo de 1990".',
+  'chat.noted': 'Anotado: {answers}.',
+  'chat.notUnderstood': 'No logré entenderlo. ¿Puedes responder de otra forma?',
+  'chat.correcting': 'De acuerdo, vamos a corregirlo.',
+  'chat.confirm': "Entendí '{value}' como {label}, ¿correcto?",
+  'chat.done': '¡Listo! Revisa tus respuestas y envíalas cuando quieras.',
+  'chat.placeholder': 'Escribe tu respuesta...',
+  'chat.send': 'Enviar',
+  'chat.skip': 'Saltar',
+  'chat.thinking': 'Pensando...',
+  'chat.answers': 'Tus respuestas',
+  'chat.noAnswers': 'Todavía no hay respuestas.',
+  'chat.correct': 'Corregir',
+  'chat.submit': 'Enviar respuestas',
+  'chat.formOnlyNotice': 'Este formulario tiene campos de archivo, cuadrícula o grupo, que solo se pueden completar en el formulario estándar.',
+};
+
+const catalogues: Record<Locale, Record<MessageKey, string>> = { 'pt-BR': ptBR, en, es };
+
+export const isLocale = (value: unknown): value is Locale =>
+  (LOCALES as readonly unknown[]).includes(value);
+
+// Picks the first candidate language tag ("en-US", "es-AR", "pt") matching one of
+// the available locales, by exact tag first and then by language.
+export function negotiateLocale(available: readonly Locale[], ...candidates: Array<string | null | undefined>): Locale {
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const exact = available.find(locale => locale.toLowerCase() === candidate.toLowerCase());
+    if (exact) return exact;
+    const language = candidate.toLowerCase().split('-')[0];
+    const match = available.find(locale => locale.toLowerCase().split('-')[0] === language);
+    if (match) return match;
+  }
+  return available[0] ?? DEFAULT_LOCALE;
+}
+
+export function resolveLocale(...candidates: Array<string | null | undefined>): Locale {
+  return negotiateLocale([DEFAULT_LOCALE, ...LOCALES.filter(l => l !== DEFAULT_LOCALE)], ...candidates);
+}
+
+export function interpolate(template: string, params: Record<string, string | number | undefined> = {}) {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+export type Translator = (key: MessageKey, params?: Record<string, string | number | undefined>) => string;
+
+export function createTranslator(locale: Locale = DEFAULT_LOCALE): Translator {
+  const catalogue = catalogues[locale] ?? catalogues[DEFAULT_LOCALE];
+  return (key, params) => interpolate(catalogue[key] ?? ptBR[key], params);
+}
+
+export function formatDateTime(value: string | Date, locale: Locale = DEFAULT_LOCALE) {
+  return new Date(value).toLocaleString(locale);
+}
+
+// Date-only answers (YYYY-MM-DD) are formatted without shifting them across time zones
+export function formatDate(value: string, locale: Locale = DEFAULT_LOCALE) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return value;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.toLocaleDateString(locale);
+}
+
+export function formatNumber(value: number, locale: Locale = DEFAULT_LOCALE, maximumFractionDigits = 2) {
+  return new Intl.NumberFormat(locale, { maximumFractionDigits }).format(value);
+}
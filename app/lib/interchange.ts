@@ -0,0 +1,265 @@
+import type { FormField, FormSchema } from "~/components/form/FormFactory";
+import { compileFormSchema } from "~/lib/validation";
+import { toFieldKey, uniqueKey } from "~/lib/fields";
+
+export const BUNDLE_FORMAT = 'formcraft-form';
+export const BUNDLE_VERSION = 1;
+export const JSON_SCHEMA_2020_12 = 'https://json-schema.org/draft/2020-12/schema';
+// Extension keyword carrying what JSON Schema cannot express (labels, field types, sections, ...)
+export const UI_HINTS = 'x-formcraft';
+
+export interface FormBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  schema: FormSchema;
+}
+
+export interface ImportResult {
+  format: 'bundle' | 'json-schema' | 'formcraft';
+  schema: unknown;
+  // Parts of the document that could not be mapped onto form fields
+  unmapped: string[];
+}
+
+export function exportBundle(schema: FormSchema): FormBundle {
+  return { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: new Date().toISOString(), schema };
+}
+
+// Standard JSON Schema describing the answers, with each field's UI settings under `x-formcraft`
+// so importing the document back restores the form exactly.
+export function exportJsonSchema(schema: FormSchema): Record<string, any> {
+  const compiled = compileFormSchema(schema.fields);
+  const { sections, translations, settings } = schema;
+
+  return {
+    $schema: JSON_SCHEMA_2020_12,
+    title: schema.title,
+    description: schema.description,
+    type: 'object',
+    properties: Object.fromEntries(schema.fields.map(field => {
+      const { key, ...hints } = field;
+      return [key, { ...compiled.properties[key], [UI_HINTS]: hints }];
+    })),
+    required: compiled.required,
+    [UI_HINTS]: { version: BUNDLE_VERSION, settings, sections, translations },
+  };
+}
+
+export function downloadJson(data: unknown, filename: string) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json;charset=utf-8;' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// "data_nascimento" / "dataNascimento" -> "Data nascimento"
+const humanize = (key: string) => {
+  const words = key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').trim().toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Keywords handled by the mapping; anything else on a property is reported as ignored
+const MAPPED_KEYWORDS = new Set([
+  'type', 'title', 'description', 'format', 'enum', 'oneOf', 'anyOf', 'const', 'items', 'uniqueItems',
+  'minLength', 'maxLength', 'pattern', 'minimum', 'maximum', 'minItems', 'maxItems', 'properties', 'required',
+  'examples', '$ref', '$comment', UI_HINTS,
+]);
+
+class JsonSchemaMapper {
+  unmapped: string[] = [];
+
+  constructor(private root: Record<string, any>) {}
+
+  // Only local references (#/$defs/..., #/definitions/...) can be followed
+  resolve(schema: unknown, name: string): Record<string, any> | null {
+    if (!isObject(schema)) return null;
+    if (typeof schema.$ref !== 'string') return schema;
+
+    const path = schema.$ref.startsWith('#/') ? schema.$ref.slice(2).split('/') : null;
+    const target = path?.reduce<any>((node, part) => node?.[part.replace(/~1/g, '/').replace(/~0/g, '~')], this.root);
+    if (!isObject(target)) {
+      this.unmapped.push(`${name}: referência "${schema.$ref}" não encontrada`);
+      return null;
+    }
+    return { ...target, ...schema, $ref: undefined };
+  }
+
+  // Choices from enum, or from oneOf/anyOf lists of { const, title }
+  choices(schema: Record<string, any>) {
+    if (Array.isArray(schema.enum)) {
+      return schema.enum.filter((v: unknown) => v !== null).map((v: unknown) => ({ value: String(v), label: String(v) }));
+    }
+    const list = schema.oneOf ?? schema.anyOf;
+    if (Array.isArray(list) && list.length && list.every(item => isObject(item) && 'const' in item)) {
+      return list.map(item => ({ value: String(item.const), label: String(item.title ?? item.const) }));
+    }
+    return null;
+  }
+
+  field(key: string, raw: unknown, required: boolean, inGroup = false): FormField | null {
+    const name = `Campo "${key}"`;
+    const schema = this.resolve(raw, name);
+    if (!schema) {
+      this.unmapped.push(`${name}: definição inválida, ignorado`);
+      return null;
+    }
+
+    // Fields exported by FormCraft carry their full settings
+    if (isObject(schema[UI_HINTS])) {
+      return { key, ...schema[UI_HINTS], required: schema[UI_HINTS].required ?? required } as FormField;
+    }
+
+    const type = Array.isArray(schema.type)
+      ? schema.type.find((t: unknown) => t !== 'null')
+      : schema.type ?? (schema.enum || schema.oneOf || schema.anyOf ? 'string' : undefined);
+    const field: FormField = {
+      key,
+      type: 'text',
+      label: typeof schema.title === 'string' && schema.title ? schema.title : humanize(key),
+      required,
+    };
+    if (typeof schema.description === 'string') field.description = schema.description;
+    if (Array.isArray(schema.examples) && typeof schema.examples[0] === 'string') field.placeholder = schema.examples[0];
+
+    const ignored = Object.keys(schema).filter(k => !MAPPED_KEYWORDS.has(k) && schema[k] !== undefined);
+    if (ignored.length) this.unmapped.push(`${name}: ${ignored.join(', ')} não suportado(s)`);
+
+    const choices = this.choices(schema);
+
+    switch (type) {
+      case 'string': {
+        if (choices) {
+          return { ...field, type: 'select', options: choices };
+        }
+        if (schema.format === 'email') field.type = 'email';
+        else if (schema.format === 'date') field.type = 'date';
+        else if (schema.format === 'date-time') {
+          field.type = 'date';
+          this.unmapped.push(`${name}: date-time importado como data (sem horário)`);
+        } else if (schema.format) {
+          this.unmapped.push(`${name}: formato "${schema.format}" importado como texto`);
+        }
+        if (field.type !== 'date') {
+          if (typeof schema.maxLength === 'number' && schema.maxLength > 255) field.type = 'textarea';
+          const validation: FormField['validation'] = {};
+          if (typeof schema.minLength === 'number') validation.minLength = schema.minLength;
+          if (typeof schema.maxLength === 'number') validation.maxLength = schema.maxLength;
+          if (typeof schema.pattern === 'string' && schema.format !== 'email') validation.pattern = schema.pattern;
+          if (Object.keys(validation).length) field.validation = validation;
+        }
+        return field;
+      }
+
+      case 'number':
+      case 'integer': {
+        if (choices) return { ...field, type: 'select', options: choices };
+        const validation: FormField['validation'] = {};
+        if (typeof schema.minimum === 'number') validation.min = schema.minimum;
+        if (typeof schema.maximum === 'number') validation.max = schema.maximum;
+        return { ...field, type: 'number', ...(Object.keys(validation).length ? { validation } : {}) };
+      }
+
+      case 'boolean':
+        return { ...field, type: 'checkbox' };
+
+      case 'array': {
+        const items = this.resolve(schema.items, name);
+        const itemChoices = items && this.choices(items);
+        if (itemChoices) {
+          if (schema.minItems !== undefined || schema.maxItems !== undefined) {
+            this.unmapped.push(`${name}: limites de seleção (minItems/maxItems) não suportados`);
+          }
+          return { ...field, type: 'multiselect', options: itemChoices };
+        }
+
+        if (items?.type === 'object' && isObject(items.properties) && !inGroup) {
+          const children = this.fields(items, `${key}.`, true);
+          if (children.length) {
+            return {
+              ...field,
+              type: 'group',
+              fields: children,
+              repeat: {
+                ...(typeof schema.minItems === 'number' ? { min: schema.minItems } : {}),
+                ...(typeof schema.maxItems === 'number' ? { max: schema.maxItems } : {}),
+              },
+            };
+          }
+        }
+        this.unmapped.push(`${name}: lista sem opções (enum) não pode ser mapeada, ignorado`);
+        return null;
+      }
+
+      default:
+        this.unmapped.push(`${name}: tipo "${type ?? 'desconhecido'}" não pode ser mapeado, ignorado`);
+        return null;
+    }
+  }
+
+  fields(schema: Record<string, any>, prefix = '', inGroup = false): FormField[] {
+    const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+    const taken: string[] = [];
+
+    return Object.entries(schema.properties ?? {}).flatMap(([property, definition]) => {
+      // JSON Schema allows any property name; field keys are restricted
+      const key = uniqueKey(/^[A-Za-z0-9_]+$/.test(property) ? property : toFieldKey(property), taken);
+      if (key !== property) this.unmapped.push(`Campo "${prefix}${property}": chave trocada por "${key}"`);
+      taken.push(key);
+      const field = this.field(`${prefix}${key}`, definition, required.includes(property), inGroup);
+      return field ? [{ ...field, key }] : [];
+    });
+  }
+}
+
+// Reads a FormCraft bundle, a JSON Schema (ours, with UI hints, or any plain one)
+// or a bare FormCraft schema. The result should still go through sanitizeSchema.
+export function importForm(document: unknown): ImportResult {
+  if (!isObject(document)) {
+    throw new Error('O arquivo não contém um objeto JSON');
+  }
+
+  if (document.format === BUNDLE_FORMAT) {
+    const unmapped = typeof document.version === 'number' && document.version > BUNDLE_VERSION
+      ? [`Pacote na versão ${document.version}; esta instalação conhece até a versão ${BUNDLE_VERSION}`]
+      : [];
+    return { format: 'bundle', schema: document.schema, unmapped };
+  }
+
+  if (Array.isArray(document.fields)) {
+    return { format: 'formcraft', schema: document, unmapped: [] };
+  }
+
+  if (isObject(document.properties)) {
+    const mapper = new JsonSchemaMapper(document);
+    const hints = isObject(document[UI_HINTS]) ? document[UI_HINTS] : {};
+    if (document.type !== undefined && document.type !== 'object') {
+      mapper.unmapped.push(`Documento do tipo "${document.type}" lido como objeto`);
+    }
+    const fields = mapper.fields(document);
+
+    return {
+      format: 'json-schema',
+      schema: {
+        title: typeof document.title === 'string' ? document.title : 'Formulário importado',
+        description: typeof document.description === 'string' ? document.description : '',
+        fields,
+        sections: hints.sections,
+        translations: hints.translations,
+        settings: hints.settings ?? { allowAnonymous: true, showProgress: true, submitText: '' },
+      },
+      unmapped: mapper.unmapped,
+    };
+  }
+
+  throw new Error('Formato não reconhecido: esperado um pacote FormCraft ou um JSON Schema');
+}
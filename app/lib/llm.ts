@@ -1,29 +1,39 @@
-import { supabase } from "./supabaseClient";
+import { checkContract } from "~/lib/llmContracts";
+import { createOpenAICompatibleProvider, edgeProvider, type LlmProvider } from "~/lib/llmProviders";
+import { offlineProvider } from "~/lib/offlineLlm";
 
-export async function generateSchema(description: string) {
-  const { data, error } = await supabase.functions.invoke("generate-schema", {
-    body: { description },
-  });
-
-  if (error) {
-    throw new Error(`Failed to generate schema: ${error.message}`);
+// VITE_LLM_PROVIDER picks the provider: "edge" (default, Supabase Edge Functions),
+// "openai" (any OpenAI-compatible endpoint at VITE_LLM_BASE_URL) or "offline" (deterministic).
+function selectProvider(): LlmProvider {
+  const env = import.meta.env;
+  switch (env.VITE_LLM_PROVIDER) {
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: env.VITE_LLM_BASE_URL || 'http://localhost:8080/v1',
+        model: env.VITE_LLM_MODEL || 'local-model',
+        apiKey: env.VITE_LLM_API_KEY,
+      });
+    case 'offline':
+      return offlineProvider;
+    default:
+      return edgeProvider;
   }
+}
 
-  return data;
+const provider = selectProvider();
+
+export async function generateSchema(description: string) {
+  return checkContract('generateSchema', await provider.generateSchema(description));
 }
 
 export async function nluMap(message: string, schemaJson: unknown, currentAnswers?: Record<string, unknown>) {
-  const { data, error } = await supabase.functions.invoke("nlu-map", {
-    body: { 
-      message, 
-      schema_json: schemaJson, 
-      current_answers: currentAnswers 
-    },
-  });
+  return checkContract('nluMap', await provider.nluMap(message, schemaJson, currentAnswers));
+}
 
-  if (error) {
-    throw new Error(`Failed to map NLU: ${error.message}`);
-  }
+export async function translateSchema(content: unknown, sourceLocale: string, targetLocale: string) {
+  return checkContract('translateSchema', await provider.translateSchema(content, sourceLocale, targetLocale));
+}
 
-  return data;
-}
\ No newline at end of file
+export async function refineSchema(schemaJson: unknown, instruction: string) {
+  return checkContract('refineSchema', await provider.refineSchema(schemaJson, instruction));
+}
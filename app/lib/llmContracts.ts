@@ -0,0 +1,69 @@
+import Ajv from "ajv";
+
+// What every provider must return for each task. Only the envelope is checked here;
+// schemas and translations are sanitized in depth where they are used.
+const formShape = {
+  type: 'object',
+  required: ['fields'],
+  properties: {
+    title: { type: 'string' },
+    description: { type: 'string' },
+    fields: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['key', 'type', 'label'],
+        properties: { key: { type: 'string' }, type: { type: 'string' }, label: { type: 'string' } },
+      },
+    },
+    settings: { type: 'object' },
+  },
+};
+
+export const LLM_CONTRACTS = {
+  generateSchema: {
+    type: 'object',
+    required: ['schema'],
+    properties: { schema: formShape },
+  },
+  nluMap: {
+    type: 'object',
+    required: ['answers'],
+    properties: {
+      answers: { type: 'object' },
+      confidence: { type: 'object', additionalProperties: { type: 'number', minimum: 0, maximum: 1 } },
+    },
+  },
+  translateSchema: {
+    type: 'object',
+    required: ['translation'],
+    properties: { translation: { type: 'object' } },
+  },
+  refineSchema: {
+    type: 'object',
+    required: ['schema'],
+    properties: { schema: formShape },
+  },
+};
+
+export type LlmTask = keyof typeof LLM_CONTRACTS;
+
+export interface LlmResults {
+  generateSchema: { schema: Record<string, any> };
+  nluMap: { answers: Record<string, unknown>; confidence?: Record<string, number> };
+  translateSchema: { translation: Record<string, any> };
+  refineSchema: { schema: Record<string, any> };
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validators = Object.fromEntries(
+  Object.entries(LLM_CONTRACTS).map(([task, contract]) => [task, ajv.compile(contract)])
+) as Record<LlmTask, ReturnType<typeof ajv.compile>>;
+
+export function checkContract<T extends LlmTask>(task: T, data: unknown): LlmResults[T] {
+  const validate = validators[task];
+  if (!validate(data)) {
+    throw new Error(`Invalid ${task} response: ${ajv.errorsText(validate.errors)}`);
+  }
+  return data as LlmResults[T];
+}
@@ -0,0 +1,121 @@
+import { supabase } from "./supabaseClient";
+import { FORM_META_SCHEMA } from "~/lib/sanitize";
+import { LLM_CONTRACTS, type LlmTask } from "~/lib/llmContracts";
+
+// Providers return raw output; llm.ts checks it against LLM_CONTRACTS
+export interface LlmProvider {
+  name: string;
+  generateSchema(description: string): Promise<unknown>;
+  nluMap(message: string, schemaJson: unknown, currentAnswers?: Record<string, unknown>): Promise<unknown>;
+  translateSchema(content: unknown, sourceLocale: string, targetLocale: string): Promise<unknown>;
+  refineSchema(schemaJson: unknown, instruction: string): Promise<unknown>;
+}
+
+async function invokeEdge(name: string, body: Record<string, unknown>, action: string) {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    throw new Error(`Failed to ${action}: ${error.message}`);
+  }
+
+  return data;
+}
+
+// Supabase Edge Functions, which call OpenAI with the key kept server-side
+export const edgeProvider: LlmProvider = {
+  name: 'edge',
+  generateSchema: (description) =>
+    invokeEdge("generate-schema", { description }, 'generate schema'),
+  nluMap: (message, schemaJson, currentAnswers) =>
+    invokeEdge("nlu-map", { message, schema_json: schemaJson, current_answers: currentAnswers }, 'map NLU'),
+  translateSchema: (content, sourceLocale, targetLocale) =>
+    invokeEdge("translate-schema", { content, source_locale: sourceLocale, target_locale: targetLocale }, 'translate schema'),
+  refineSchema: (schemaJson, instruction) =>
+    invokeEdge("refine-schema", { schema_json: schemaJson, instruction }, 'refine schema'),
+};
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+const FORM_RULES = `Forms follow this JSON Schema:\n${JSON.stringify(FORM_META_SCHEMA)}`;
+
+const reply = (task: LlmTask) =>
+  `Reply with a single JSON object, without comments or markdown, matching this JSON Schema:\n${JSON.stringify(LLM_CONTRACTS[task])}`;
+
+const PROMPTS: Record<LlmTask, string> = {
+  generateSchema: [
+    'You design web forms. Build a form for the description the user gives, written in the language of the description.',
+    'Field keys are snake_case. Every field has key, type, label and required; option fields have options with value and label.',
+    FORM_RULES,
+    reply('generateSchema'),
+  ].join('\n\n'),
+  nluMap: [
+    'You fill forms from chat messages. Given the form, the answers so far and a message, return the answers the message gives, keyed by field key.',
+    'Use option values (not labels) for select, radio and multiselect, true/false for checkbox, numbers for number and rating fields and YYYY-MM-DD for dates.',
+    'Leave out anything the message does not state. For each answer, give your confidence between 0 and 1.',
+    reply('nluMap'),
+  ].join('\n\n'),
+  translateSchema: [
+    'You translate form content. Translate every string of the given object from the source to the target locale.',
+    'Keep the exact same keys and structure, and keep {{placeholders}} untouched.',
+    reply('translateSchema'),
+  ].join('\n\n'),
+  refineSchema: [
+    'You edit web forms. Apply the instruction to the given form and return the whole updated form.',
+    'Keep the keys of fields that still exist and change nothing the instruction does not ask for.',
+    FORM_RULES,
+    reply('refineSchema'),
+  ].join('\n\n'),
+};
+
+// Models sometimes wrap JSON in ```json fences despite being asked not to
+const stripFences = (text: string) => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, llama.cpp, Ollama, vLLM, ...
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LlmProvider {
+  const complete = async (task: LlmTask, input: Record<string, unknown>) => {
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        temperature: 0.2,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: PROMPTS[task] },
+          { role: 'user', content: JSON.stringify(input) },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to run ${task}: ${response.status} ${response.statusText}`);
+    }
+
+    const content = (await response.json())?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error(`Failed to run ${task}: empty completion`);
+    }
+    try {
+      return JSON.parse(stripFences(content));
+    } catch {
+      throw new Error(`Failed to run ${task}: completion is not JSON`);
+    }
+  };
+
+  return {
+    name: 'openai',
+    generateSchema: (description) => complete('generateSchema', { description }),
+    nluMap: (message, schemaJson, currentAnswers) =>
+      complete('nluMap', { message, schema_json: schemaJson, current_answers: currentAnswers ?? {} }),
+    translateSchema: (content, sourceLocale, targetLocale) =>
+      complete('translateSchema', { content, source_locale: sourceLocale, target_locale: targetLocale }),
+    refineSchema: (schemaJson, instruction) => complete('refineSchema', { schema_json: schemaJson, instruction }),
+  };
+}
@@ -0,0 +1,154 @@
+import { createDraft, saveResponseItems, submitDraft } from "~/lib/drafts";
+import type { buildResponseItems } from "~/lib/responses";
+
+// IndexedDB copy of what a respondent needs without a connection: the last version of
+// each form they opened, the answers being typed, the submissions waiting to be sent and
+// those the server refused.
+
+export interface CachedForm {
+  id: string;
+  title: string;
+  schema_json: unknown;
+  cachedAt: string;
+}
+
+export interface LocalAnswers {
+  formId: string;
+  responseId: string;
+  answers: Record<string, any>;
+  updatedAt: string;
+}
+
+// Keyed by response id, so queueing the same submission twice keeps a single entry
+export interface QueuedSubmission {
+  responseId: string;
+  // Resume token of the draft, needed to save it
+  token: string;
+  formId: string;
+  locale: string;
+  items: ReturnType<typeof buildResponseItems>;
+  queuedAt: string;
+}
+
+// A queued submission the server refused (form removed, token no longer valid...).
+// Retrying would fail the same way, so it leaves the outbox and waits to be dismissed.
+export interface FailedSubmission extends QueuedSubmission {
+  error: string;
+  failedAt: string;
+}
+
+type StoreName = 'forms' | 'answers' | 'outbox' | 'failed';
+
+// Fired on window whenever the outbox or the failed submissions change
+export const QUEUE_EVENT = 'formcraft:queue';
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open('formcraft', 2);
+    request.onupgradeneeded = (event) => {
+      if (event.oldVersion < 1) {
+        request.result.createObjectStore('forms', { keyPath: 'id' });
+        request.result.createObjectStore('answers', { keyPath: 'formId' });
+        request.result.createObjectStore('outbox', { keyPath: 'responseId' });
+      }
+      if (event.oldVersion < 2) {
+        request.result.createObjectStore('failed', { keyPath: 'responseId' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return database;
+}
+
+async function run<T>(store: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Failures that retrying later may fix, as opposed to errors returned by the database.
+// Requests that never reached the server fail with the browser's fetch message (Chrome,
+// Firefox, Safari), which supabase-js passes on; Edge Functions wrap it in FunctionsFetchError.
+export const isNetworkError = (error: unknown) =>
+  (typeof navigator !== 'undefined' && !navigator.onLine)
+  || (error as { name?: unknown })?.name === 'FunctionsFetchError'
+  || /failed to fetch|networkerror|load failed/i.test(String((error as { message?: unknown })?.message ?? ''));
+
+export const cacheForm = (form: Omit<CachedForm, 'cachedAt'>) =>
+  run<IDBValidKey>('forms', 'readwrite', store => store.put({ ...form, cachedAt: new Date().toISOString() }));
+
+export const getCachedForm = (id: string) =>
+  run<CachedForm | undefined>('forms', 'readonly', store => store.get(id));
+
+export const saveLocalAnswers = (formId: string, responseId: string, answers: Record<string, any>) =>
+  run<IDBValidKey>('answers', 'readwrite', store => store.put({ formId, responseId, answers, updatedAt: new Date().toISOString() }));
+
+export const getLocalAnswers = (formId: string) =>
+  run<LocalAnswers | undefined>('answers', 'readonly', store => store.get(formId));
+
+export const clearLocalAnswers = (formId: string) =>
+  run<undefined>('answers', 'readwrite', store => store.delete(formId));
+
+export const getQueuedSubmissions = () =>
+  run<QueuedSubmission[]>('outbox', 'readonly', store => store.getAll());
+
+export const getFailedSubmissions = () =>
+  run<FailedSubmission[]>('failed', 'readonly', store => store.getAll());
+
+export async function dismissFailedSubmissions() {
+  await run('failed', 'readwrite', store => store.clear());
+  window.dispatchEvent(new Event(QUEUE_EVENT));
+}
+
+export async function queueSubmission(submission: Omit<QueuedSubmission, 'queuedAt'>) {
+  await run('outbox', 'readwrite', store => store.put({ ...submission, queuedAt: new Date().toISOString() }));
+  window.dispatchEvent(new Event(QUEUE_EVENT));
+}
+
+// Safe to repeat: the draft row is only inserted if missing, its items are upserted by
+// (response_id, field_key), and submitting an already submitted draft changes nothing.
+// The response only becomes submitted once its items are stored.
+export async function sendSubmission(submission: Omit<QueuedSubmission, 'queuedAt'>) {
+  const draft = { id: submission.responseId, token: submission.token };
+  await createDraft(submission.formId, draft);
+  await saveResponseItems(draft, submission.items);
+  await submitDraft(draft, submission.locale);
+}
+
+let syncing: Promise<number> | null = null;
+
+// Sends queued submissions in order and returns how many went through. A network failure
+// stops the run so the rest wait for the next attempt; a submission the server refuses is
+// moved to the failed ones and the others still go.
+export function syncQueuedSubmissions() {
+  syncing ??= (async () => {
+    let sent = 0;
+    let failed = 0;
+    try {
+      for (const submission of await getQueuedSubmissions()) {
+        try {
+          await sendSubmission(submission);
+          sent++;
+        } catch (error) {
+          if (isNetworkError(error)) throw error;
+          console.error('Queued submission refused:', error);
+          const message = String((error as { message?: unknown })?.message ?? error);
+          await run('failed', 'readwrite', store => store.put({ ...submission, error: message, failedAt: new Date().toISOString() }));
+          failed++;
+        }
+        await run('outbox', 'readwrite', store => store.delete(submission.responseId));
+      }
+    } finally {
+      syncing = null;
+      if (sent + failed > 0) window.dispatchEvent(new Event(QUEUE_EVENT));
+    }
+    return sent;
+  })();
+  return syncing;
+}
@@ -0,0 +1,179 @@
+import type { FormField, FormSchema } from "~/components/form/FormFactory";
+import type { LlmProvider } from "~/lib/llmProviders";
+import { removeField, toFieldKey, uniqueKey, updateField } from "~/lib/fields";
+import { parseDate } from "~/lib/dates";
+
+// Deterministic stand-in for the LLM, for development, demos and tests without network or
+// API key. It only understands simple, keyword-based requests, but its output follows the
+// same contracts as the real providers.
+
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+// Matches the word at the start of a word, so "recomend" finds "recomendaria"
+const wordPattern = (word: string) =>
+  new RegExp(`(^|[^a-z0-9])${normalize(word).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`);
+
+const mentions = (text: string, word: string) => wordPattern(word).test(text);
+
+type FieldTemplate = Omit<FormField, 'required'> & { required?: boolean };
+
+// Checked in order; the first keyword found in the text decides the field
+const FIELD_RULES: Array<{ words: string[]; field: FieldTemplate }> = [
+  { words: ['email', 'e-mail', 'correo'], field: { key: 'email', type: 'email', label: 'E-mail', required: true } },
+  { words: ['nascimento', 'birth', 'nacimiento'], field: { key: 'data_nascimento', type: 'date', label: 'Data de nascimento' } },
+  { words: ['nome', 'name', 'nombre'], field: { key: 'nome', type: 'text', label: 'Nome', required: true } },
+  { words: ['telefone', 'celular', 'whatsapp', 'phone', 'telefono'], field: { key: 'telefone', type: 'tel', label: 'Telefone' } },
+  { words: ['idade', 'age', 'edad'], field: { key: 'idade', type: 'number', label: 'Idade', validation: { min: 0, max: 130 } } },
+  { words: ['cidade', 'city', 'ciudad'], field: { key: 'cidade', type: 'text', label: 'Cidade' } },
+  { words: ['empresa', 'company', 'compania'], field: { key: 'empresa', type: 'text', label: 'Empresa' } },
+  { words: ['cargo', 'job', 'puesto'], field: { key: 'cargo', type: 'text', label: 'Cargo' } },
+  { words: ['nps', 'recomend'], field: { key: 'nps', type: 'nps', label: 'Qual a probabilidade de você nos recomendar?', required: true } },
+  { words: ['nota', 'avaliacao', 'estrelas', 'rating'], field: { key: 'avaliacao', type: 'rating', label: 'Como você avalia a sua experiência?' } },
+  { words: ['mensagem', 'comentario', 'sugest', 'feedback', 'message', 'comment', 'mensaje'], field: { key: 'comentarios', type: 'textarea', label: 'Comentários' } },
+  { words: ['termos', 'consent', 'lgpd', 'terms', 'terminos'], field: { key: 'aceite_termos', type: 'checkbox', label: 'Li e aceito os termos', required: true } },
+];
+
+const DEFAULT_FIELDS = ['nome', 'email', 'comentarios'];
+
+const SETTINGS: FormSchema['settings'] = { allowAnonymous: true, showProgress: true, submitText: 'Enviar' };
+
+const toField = (template: FieldTemplate, taken: string[]): FormField =>
+  ({ ...template, key: uniqueKey(template.key, taken), required: template.required ?? false });
+
+const findRule = (text: string) => FIELD_RULES.find(rule => rule.words.some(word => mentions(normalize(text), word)));
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+function generateSchema(description: string) {
+  const text = normalize(description);
+  // Fields in the order the description mentions them
+  const matched = FIELD_RULES
+    .map(rule => ({ rule, at: Math.min(...rule.words.map(w => text.search(wordPattern(w))).filter(i => i >= 0)) }))
+    .filter(({ at }) => Number.isFinite(at))
+    .sort((a, b) => a.at - b.at)
+    .map(({ rule }) => rule.field);
+  const templates = matched.length ? matched : FIELD_RULES.map(r => r.field).filter(f => DEFAULT_FIELDS.includes(f.key));
+
+  const fields = templates.reduce<FormField[]>((list, template) => [...list, toField(template, list.map(f => f.key))], []);
+  const firstSentence = description.trim().split(/[.!?\n]/)[0].trim();
+
+  return {
+    schema: {
+      title: capitalize(firstSentence.length > 60 ? `${firstSentence.slice(0, 57)}...` : firstSentence) || 'Formulário',
+      description: description.trim(),
+      fields,
+      settings: SETTINGS,
+    },
+  };
+}
+
+const EMAIL = /[^\s@,;]+@[^\s@,;]+\.[^\s@,;]+/;
+const PHONE = /\+?\d[\d\s().-]{7,}\d/;
+
+// Pattern matches are near-certain; an option mentioned inside a longer sentence is a guess
+function nluMap(message: string, schemaJson: unknown, currentAnswers: Record<string, unknown> = {}) {
+  const schema = schemaJson as FormSchema;
+  const text = normalize(message);
+  const answers: Record<string, unknown> = {};
+  const confidence: Record<string, number> = {};
+
+  for (const field of schema?.fields ?? []) {
+    if (currentAnswers[field.key] !== undefined) continue;
+
+    if (field.type === 'email' && EMAIL.test(message)) {
+      answers[field.key] = message.match(EMAIL)![0];
+      confidence[field.key] = 0.95;
+    } else if (field.type === 'tel' && PHONE.test(message)) {
+      answers[field.key] = message.match(PHONE)![0].trim();
+      confidence[field.key] = 0.9;
+    } else if (field.type === 'date' && parseDate(message)) {
+      answers[field.key] = parseDate(message);
+      confidence[field.key] = 0.9;
+    } else if (field.options?.length) {
+      const found = field.options.filter(o => mentions(text, o.label) || mentions(text, o.value));
+      const exact = found.length === 1 && [normalize(found[0].label), normalize(found[0].value)].includes(text);
+      if (field.type === 'multiselect' && found.length) {
+        answers[field.key] = found.map(o => o.value);
+        confidence[field.key] = 0.8;
+      } else if (found.length === 1) {
+        answers[field.key] = found[0].value;
+        confidence[field.key] = exact ? 1 : 0.6;
+      }
+    }
+  }
+
+  return { answers, confidence };
+}
+
+// Marks every string instead of translating it, keeping the structure the translation needs
+function markStrings(value: unknown, marker: string): unknown {
+  if (typeof value === 'string') return value ? `${marker} ${value}` : value;
+  if (Array.isArray(value)) return value.map(item => markStrings(item, marker));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, markStrings(item, marker)]));
+  }
+  return value;
+}
+
+function findField(schema: FormSchema, name: string) {
+  const target = normalize(name).replace(/^(o|a|the|el|la)\s+/, '').replace(/^(campo|field)\s+/, '');
+  return schema.fields.find(f => f.key === target || normalize(f.label) === target)
+    ?? schema.fields.find(f => normalize(f.label).includes(target));
+}
+
+const FIELD_NOUN = String.raw`(?:(?:o |the |el )?(?:campo|field) )?`;
+const REFINE_RULES: Array<{ pattern: RegExp; apply: (schema: FormSchema, match: RegExpMatchArray) => FormSchema }> = [
+  {
+    pattern: new RegExp(String.raw`^(?:remova|remover|tire|exclua|apague|remove|delete|elimina)\s+${FIELD_NOUN}(.+)$`, 'i'),
+    apply: (schema, [, name]) => {
+      const field = findField(schema, name);
+      return field ? removeField(schema, field.key) : schema;
+    },
+  },
+  {
+    pattern: new RegExp(String.raw`^(?:torne|deixe|make|haz)\s+${FIELD_NOUN}(.+?)\s+(obrigat[oó]ri[oa]|required|obligatori[oa]|opcional|optional)$`, 'i'),
+    apply: (schema, [, name, state]) => {
+      const field = findField(schema, name);
+      return field ? updateField(schema, field.key, { ...field, required: !/opcional|optional/i.test(state) }) : schema;
+    },
+  },
+  {
+    pattern: new RegExp(String.raw`^(?:renomeie|renomear|rename|renombra)\s+${FIELD_NOUN}(.+?)\s+(?:para|to|a)\s+(.+)$`, 'i'),
+    apply: (schema, [, name, label]) => {
+      const field = findField(schema, name);
+      return field ? updateField(schema, field.key, { ...field, label: label.trim() }) : schema;
+    },
+  },
+  {
+    pattern: /^(?:adicione|adicionar|inclua|add|agrega|añade)\s+(?:(?:um|uma|a|an|un|una)\s+)?(?:(?:campo|field)\s+(?:de\s+|para\s+|for\s+)?)?(.+)$/i,
+    apply: (schema, [, name]) => {
+      const taken = schema.fields.map(f => f.key);
+      const rule = findRule(name);
+      const field = rule
+        ? toField(rule.field, taken)
+        : { key: uniqueKey(toFieldKey(name), taken), type: 'text' as const, label: capitalize(name.trim()), required: false };
+      return { ...schema, fields: [...schema.fields, field] };
+    },
+  },
+];
+
+// One instruction per line or sentence; anything not understood is left out
+function refineSchema(schemaJson: unknown, instruction: string) {
+  const steps = instruction.split(/[;\n]|\.\s/).map(s => s.trim().replace(/\.$/, '')).filter(Boolean);
+  const schema = steps.reduce((current, step) => {
+    for (const rule of REFINE_RULES) {
+      const match = step.match(rule.pattern);
+      if (match) return rule.apply(current, match);
+    }
+    return current;
+  }, schemaJson as FormSchema);
+  return { schema };
+}
+
+export const offlineProvider: LlmProvider = {
+  name: 'offline',
+  generateSchema: async (description) => generateSchema(description),
+  nluMap: async (message, schemaJson, currentAnswers) => nluMap(message, schemaJson, currentAnswers),
+  translateSchema: async (content, _sourceLocale, targetLocale) => ({ translation: markStrings(content, `[${targetLocale}]`) }),
+  refineSchema: async (schemaJson, instruction) => refineSchema(schemaJson, instruction),
+};
@@ -0,0 +1,189 @@
+import { supabase } from "./supabaseClient";
+import { LOW_CONFIDENCE } from "~/lib/chat";
+import type { FieldAggregate, VolumeDay } from "~/lib/summaries";
+import type { DropOffAggregate } from "~/lib/activity";
+
+// Queries behind the responses page. Responses are listed a page at a time, their items
+// are loaded when opened, and totals come from the functions in
+// supabase/sql/response_aggregates.sql, so the page stays fast with any number of responses.
+
+export const PAGE_SIZE = 25;
+// Responses per request when exporting everything
+const EXPORT_BATCH_SIZE = 500;
+const REVIEW_LIMIT = 50;
+
+export interface ResponseRow {
+  id: string;
+  status: 'draft' | 'submitted';
+  created_at: string;
+  updated_at: string;
+  abandoned_at: string | null;
+  locale: string | null;
+}
+
+export interface ResponseItem {
+  id: string;
+  field_key: string;
+  value_json: any;
+  valid: boolean;
+  confidence: number | null;
+  // Set by the owner's review: the extracted value was accepted as is, or replaced
+  review: 'accepted' | 'fixed' | null;
+  created_at: string;
+}
+
+export interface ResponseDetails {
+  items: ResponseItem[];
+  // sessions.turns_json, untyped as stored
+  turns: unknown;
+}
+
+export interface ResponseStats {
+  total: number;
+  submitted: number;
+  abandoned: number;
+}
+
+export interface FormSummaryData {
+  volume: VolumeDay[];
+  fields: FieldAggregate[];
+  drop_off: DropOffAggregate[];
+}
+
+export interface UncertainItem extends ResponseItem {
+  response_id: string;
+}
+
+// Position after the last row shown; newest first, with the id breaking ties
+export type ResponseCursor = Pick<ResponseRow, 'created_at' | 'id'>;
+// Same for the review queue, oldest first
+export type ItemCursor = Pick<ResponseItem, 'created_at' | 'id'>;
+
+const RESPONSE_COLUMNS = 'id, status, created_at, updated_at, abandoned_at, locale';
+const ITEM_COLUMNS = 'id, field_key, value_json, valid, confidence, review, created_at';
+
+function listResponses<T>(formId: string, columns: string, limit: number, cursor?: ResponseCursor | null) {
+  let query = supabase
+    .from('responses')
+    .select(columns)
+    .eq('form_id', formId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+  if (cursor) {
+    query = query.or(`created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`);
+  }
+  return query.returns<T[]>();
+}
+
+export async function fetchResponsePage(formId: string, cursor?: ResponseCursor | null) {
+  // One extra row tells whether there is a next page
+  const { data, error } = await listResponses<ResponseRow>(formId, RESPONSE_COLUMNS, PAGE_SIZE + 1, cursor);
+  if (error) throw error;
+
+  const rows = data.slice(0, PAGE_SIZE);
+  return { rows, nextCursor: data.length > PAGE_SIZE ? rows[rows.length - 1] : null };
+}
+
+export async function fetchResponseDetails(responseId: string): Promise<ResponseDetails> {
+  const { data, error } = await supabase
+    .from('responses')
+    .select(`response_items ( ${ITEM_COLUMNS} ), sessions ( turns_json )`)
+    .eq('id', responseId)
+    .single();
+
+  if (error) throw error;
+
+  const session = Array.isArray(data.sessions) ? data.sessions[0] : data.sessions;
+  return { items: data.response_items ?? [], turns: session?.turns_json };
+}
+
+export async function fetchResponseStats(formId: string): Promise<ResponseStats> {
+  const { data, error } = await supabase.rpc('response_stats', { p_form_id: formId });
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchFormSummary(formId: string): Promise<FormSummaryData> {
+  const { data, error } = await supabase.rpc('form_summary', {
+    p_form_id: formId,
+    // Days are counted in the owner's time zone
+    p_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+  if (error) throw error;
+  return data;
+}
+
+// Oldest uncertain items not reviewed yet first, a page at a time. `remaining` counts them
+// from the cursor on, this page included.
+export async function fetchUncertainItems(formId: string, cursor?: ItemCursor | null) {
+  let query = supabase
+    .from('response_items')
+    .select(`response_id, ${ITEM_COLUMNS}, responses!inner ( form_id )`, { count: 'exact' })
+    .eq('responses.form_id', formId)
+    .lt('confidence', LOW_CONFIDENCE)
+    .is('review', null)
+    .order('created_at')
+    .order('id')
+    .limit(REVIEW_LIMIT);
+  if (cursor) {
+    query = query.or(`created_at.gt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.gt.${cursor.id})`);
+  }
+  const { data, error, count } = await query.returns<UncertainItem[]>();
+
+  if (error) throw error;
+  return {
+    items: data,
+    remaining: count ?? data.length,
+    nextCursor: data.length === REVIEW_LIMIT ? data[data.length - 1] : null,
+  };
+}
+
+// Replaces the items of a reviewed response with `items`; items of fields the new
+// answers hide are deleted. Returns the stored items.
+export async function saveRevisedItems(
+  responseId: string,
+  items: Array<Pick<ResponseItem, 'field_key' | 'value_json' | 'valid' | 'confidence' | 'review'> & { response_id: string }>
+): Promise<ResponseItem[]> {
+  const { data, error } = await supabase
+    .from('response_items')
+    .upsert(items, { onConflict: 'response_id,field_key' })
+    .select(ITEM_COLUMNS)
+    .returns<ResponseItem[]>();
+
+  if (error) throw error;
+
+  let stale = supabase
+    .from('response_items')
+    .delete()
+    .eq('response_id', responseId);
+  if (items.length > 0) stale = stale.not('field_key', 'in', `(${items.map(item => item.field_key).join(',')})`);
+
+  const { error: deleteError } = await stale;
+  if (deleteError) throw deleteError;
+  return data;
+}
+
+export type ExportedResponse = ResponseRow & { response_items: ResponseItem[] };
+
+// Every response with its items, fetched in batches; only for exporting
+export async function fetchAllResponses(formId: string, onProgress?: (loaded: number) => void) {
+  const all: ExportedResponse[] = [];
+  let cursor: ResponseCursor | null = null;
+
+  while (true) {
+    const { data, error } = await listResponses<ExportedResponse>(
+      formId,
+      `${RESPONSE_COLUMNS}, response_items ( ${ITEM_COLUMNS} )`,
+      EXPORT_BATCH_SIZE,
+      cursor
+    );
+    if (error) throw error;
+
+    const batch: ExportedResponse[] = data;
+    all.push(...batch);
+    onProgress?.(all.length);
+    if (batch.length < EXPORT_BATCH_SIZE) return all;
+    cursor = batch[batch.length - 1];
+  }
+}
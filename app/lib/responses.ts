@@ -0,0 +1,47 @@
+import type { FormSchema } from "~/components/form/FormFactory";
+import { getVisibleFields } from "~/lib/conditions";
+import { withCalculatedValues } from "~/lib/expressions";
+import { validateAnswers } from "~/lib/validation";
+
+// Builds the response_items rows for a submission. Calculated fields are recomputed
+// here instead of trusting the client, and every item is re-validated.
+// `confidence` holds the NLU confidence of answers collected through the chat.
+export function buildResponseItems(
+  schema: FormSchema,
+  responseId: string,
+  data: Record<string, any>,
+  confidence?: Record<string, number>
+) {
+  const answers = withCalculatedValues(schema.fields, data);
+  const visibleFields = getVisibleFields(schema.fields, answers);
+  const fieldErrors = validateAnswers(visibleFields, answers, schema.settings.locale);
+
+  return visibleFields
+    .filter(field => field.key in data || field.type === 'calculated')
+    .map(field => ({
+      response_id: responseId,
+      field_key: field.key,
+      value_json: answers[field.key] ?? null,
+      valid: !fieldErrors[field.key],
+      confidence: confidence?.[field.key] ?? null
+    }));
+}
+
+// The items of a stored response after a reviewer changed one answer: calculated values,
+// visibility and validity follow the new value, and the other answers keep their confidence.
+export function reviseResponseItems(
+  schema: FormSchema,
+  responseId: string,
+  items: Array<{ field_key: string; value_json: any; confidence: number | null }>,
+  key: string,
+  value: unknown
+) {
+  const calculated = new Set(schema.fields.filter(f => f.type === 'calculated').map(f => f.key));
+  const answers = items.filter(item => !calculated.has(item.field_key));
+  const data: Record<string, any> = Object.fromEntries(answers.map(item => [item.field_key, item.value_json]));
+  const confidence: Record<string, number> = Object.fromEntries(
+    answers.flatMap(item => (typeof item.confidence === 'number' ? [[item.field_key, item.confidence]] : []))
+  );
+
+  return buildResponseItems(schema, responseId, { ...data, [key]: value }, { ...confidence, [key]: 1 });
+}
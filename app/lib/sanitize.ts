@@ -0,0 +1,494 @@
+import Ajv from "ajv";
+import type { Condition, FormField, FormSchema, FormSection } from "~/components/form/FormFactory";
+import { FIELD_TYPE_LABELS, OPTION_TYPES, toFieldKey, uniqueKey, type FieldType } from "~/lib/fields";
+import { checkExpression } from "~/lib/expressions";
+import { isValidPattern } from "~/lib/validation";
+import { isLocale } from "~/lib/i18n";
+import { END_OF_FORM } from "~/lib/sections";
+
+export interface SchemaReport {
+  schema: FormSchema;
+  // Problems fixed automatically
+  repairs: string[];
+  // Problems left for the author to review
+  warnings: string[];
+}
+
+const FIELD_TYPES = Object.keys(FIELD_TYPE_LABELS) as FieldType[];
+const OPERATORS = ['equals', 'notEquals', 'in', 'greaterThan'];
+const KEY_PATTERN = /^[A-Za-z0-9_]+$/;
+
+const option = {
+  type: 'object',
+  required: ['value', 'label'],
+  properties: { value: { type: 'string' }, label: { type: 'string' } },
+};
+
+const condition = {
+  anyOf: [
+    {
+      type: 'object',
+      required: ['field', 'operator'],
+      properties: { field: { type: 'string' }, operator: { enum: OPERATORS } },
+    },
+    {
+      type: 'object',
+      properties: {
+        all: { type: 'array', items: { $ref: '#/definitions/condition' } },
+        any: { type: 'array', items: { $ref: '#/definitions/condition' } },
+      },
+      not: { required: ['field'] },
+    },
+  ],
+};
+
+// What a FormSchema looks like; extra properties are allowed so schemas can grow
+export const FORM_META_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  definitions: {
+    option,
+    condition,
+    field: {
+      type: 'object',
+      required: ['key', 'type', 'label', 'required'],
+      properties: {
+        key: { type: 'string', pattern: KEY_PATTERN.source },
+        type: { enum: FIELD_TYPES },
+        label: { type: 'string', minLength: 1 },
+        required: { type: 'boolean' },
+        placeholder: { type: 'string' },
+        description: { type: 'string' },
+        options: { type: 'array', items: { $ref: '#/definitions/option' } },
+        validation: {
+          type: 'object',
+          properties: {
+            min: { type: 'number' },
+            max: { type: 'number' },
+            minLength: { type: 'integer', minimum: 0 },
+            maxLength: { type: 'integer', minimum: 0 },
+            pattern: { type: 'string' },
+            rules: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['expression', 'message'],
+                properties: { expression: { type: 'string' }, message: { type: 'string' } },
+              },
+            },
+            messages: { type: 'object', additionalProperties: { type: 'string' } },
+          },
+        },
+        calculation: {
+          type: 'object',
+          required: ['expression'],
+          properties: { expression: { type: 'string' }, decimals: { type: 'integer', minimum: 0 } },
+        },
+        scale: {
+          type: 'object',
+          properties: { min: { type: 'number' }, max: { type: 'number' }, step: { type: 'number', exclusiveMinimum: 0 } },
+        },
+        matrix: {
+          type: 'object',
+          required: ['rows', 'columns'],
+          properties: {
+            rows: { type: 'array', minItems: 1, items: { $ref: '#/definitions/option' } },
+            columns: { type: 'array', minItems: 1, items: { $ref: '#/definitions/option' } },
+            multiple: { type: 'boolean' },
+          },
+        },
+        fields: { type: 'array', items: { $ref: '#/definitions/field' } },
+        repeat: {
+          type: 'object',
+          properties: { min: { type: 'integer', minimum: 0 }, max: { type: 'integer', minimum: 1 } },
+        },
+        file: {
+          type: 'object',
+          properties: {
+            accept: { type: 'array', items: { type: 'string' } },
+            maxSizeMB: { type: 'number', exclusiveMinimum: 0 },
+            maxFiles: { type: 'integer', minimum: 1 },
+          },
+        },
+        visibleWhen: { $ref: '#/definitions/condition' },
+      },
+    },
+  },
+  type: 'object',
+  required: ['title', 'description', 'fields', 'settings'],
+  properties: {
+    title: { type: 'string' },
+    description: { type: 'string' },
+    fields: { type: 'array', items: { $ref: '#/definitions/field' } },
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'title', 'fields'],
+        properties: {
+          id: { type: 'string' },
+          title: { type: 'string' },
+          description: { type: 'string' },
+          fields: { type: 'array', items: { type: 'string' } },
+          jumps: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['when', 'goTo'],
+              properties: { when: { $ref: '#/definitions/condition' }, goTo: { type: 'string' } },
+            },
+          },
+        },
+      },
+    },
+    translations: { type: 'object' },
+    settings: {
+      type: 'object',
+      required: ['allowAnonymous', 'showProgress', 'submitText'],
+      properties: {
+        allowAnonymous: { type: 'boolean' },
+        showProgress: { type: 'boolean' },
+        submitText: { type: 'string' },
+        locale: { type: 'string' },
+        completionMessage: { type: 'string' },
+      },
+    },
+  },
+};
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validateMetaSchema = ajv.compile(FORM_META_SCHEMA);
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function isCondition(value: unknown): value is Condition {
+  if (!isObject(value)) return false;
+  if ('field' in value) return typeof value.field === 'string' && OPERATORS.includes(value.operator);
+  const groups = [value.all, value.any].filter(g => g !== undefined);
+  return groups.length > 0 && groups.every(g => Array.isArray(g) && g.every(isCondition));
+}
+
+function conditionFields(condition: Condition): string[] {
+  if ('field' in condition) return [condition.field];
+  return [...(condition.all ?? []), ...(condition.any ?? [])].flatMap(conditionFields);
+}
+
+class SchemaSanitizer {
+  repairs: string[] = [];
+  warnings: string[] = [];
+
+  // Accepts plain strings as well as { value, label } objects; values are made unique
+  options(raw: unknown, name: string, what: string) {
+    if (!Array.isArray(raw)) return [];
+    const options: Array<{ value: string; label: string }> = [];
+    let normalized = false;
+    for (const item of raw) {
+      const label = typeof item === 'string' ? item : isObject(item) ? String(item.label ?? item.value ?? '') : '';
+      const rawValue = isObject(item) && item.value !== undefined && item.value !== '' ? String(item.value) : toFieldKey(label);
+      if (!label && !rawValue) continue;
+      const value = uniqueKey(rawValue, options.map(o => o.value));
+      if (!isObject(item) || value !== rawValue || typeof item.value !== 'string' || typeof item.label !== 'string') {
+        normalized = true;
+      }
+      options.push({ value, label: label || value });
+    }
+    if (normalized || options.length !== raw.length) this.repairs.push(`${name}: ${what} normalizadas`);
+    return options;
+  }
+
+  field(raw: unknown, taken: string[], inGroup: boolean): FormField | null {
+    if (!isObject(raw)) {
+      this.repairs.push('Item inválido removido da lista de campos');
+      return null;
+    }
+
+    const field = { ...raw } as FormField;
+    const rawKey = typeof raw.key === 'string' ? raw.key : '';
+    let key = KEY_PATTERN.test(rawKey) ? rawKey : toFieldKey(rawKey || (typeof raw.label === 'string' ? raw.label : ''));
+    if (taken.includes(key)) key = uniqueKey(key, taken);
+    if (key !== rawKey) {
+      this.repairs.push(rawKey ? `Chave "${rawKey}" trocada por "${key}"` : `Campo sem chave recebeu a chave "${key}"`);
+    }
+    field.key = key;
+    const name = `Campo "${key}"`;
+
+    if (typeof raw.label !== 'string' || !raw.label.trim()) {
+      field.label = key;
+      this.repairs.push(`${name}: rótulo ausente, usada a chave`);
+    }
+
+    if (!FIELD_TYPES.includes(raw.type)) {
+      field.type = 'text';
+      this.repairs.push(`${name}: tipo "${raw.type}" desconhecido, trocado por texto`);
+    } else if (inGroup && raw.type === 'group') {
+      field.type = 'text';
+      this.repairs.push(`${name}: grupos não podem ser aninhados, trocado por texto`);
+    }
+
+    if (typeof raw.required !== 'boolean') {
+      field.required = raw.required === true || raw.required === 'true';
+      if (raw.required !== undefined) this.repairs.push(`${name}: "required" convertido para verdadeiro/falso`);
+    }
+
+    for (const prop of ['placeholder', 'description'] as const) {
+      if (raw[prop] !== undefined && typeof raw[prop] !== 'string') {
+        delete field[prop];
+        this.repairs.push(`${name}: "${prop}" inválido removido`);
+      }
+    }
+
+    if (OPTION_TYPES.includes(field.type)) {
+      field.options = this.options(raw.options, name, 'opções');
+      if (field.options.length === 0) {
+        field.type = 'text';
+        delete field.options;
+        this.repairs.push(`${name}: lista sem opções, trocada por texto`);
+      }
+    }
+
+    if (field.type === 'matrix') {
+      const rows = this.options(raw.matrix?.rows, name, 'linhas');
+      const columns = this.options(raw.matrix?.columns, name, 'colunas');
+      if (rows.length === 0 || columns.length === 0) {
+        field.type = 'text';
+        delete field.matrix;
+        this.repairs.push(`${name}: matriz sem linhas ou colunas, trocada por texto`);
+      } else {
+        field.matrix = { ...raw.matrix, rows, columns };
+      }
+    }
+
+    if (field.type === 'group') {
+      const children = this.fields(raw.fields, true);
+      if (children.length === 0) {
+        field.type = 'text';
+        delete field.fields;
+        this.repairs.push(`${name}: grupo sem subcampos, trocado por texto`);
+      } else {
+        field.fields = children;
+      }
+    }
+
+    if (field.type === 'calculated') {
+      field.required = false;
+      const expression = raw.calculation?.expression;
+      if (typeof expression !== 'string' || !expression.trim()) {
+        field.calculation = { ...raw.calculation, expression: '' };
+        this.warnings.push(`${name}: campo calculado sem expressão`);
+      } else {
+        const error = checkExpression(expression);
+        if (error) this.warnings.push(`${name}: expressão inválida (${error})`);
+      }
+    }
+
+    if (raw.validation !== undefined) field.validation = this.validation(raw.validation, name);
+    if (!field.validation) delete field.validation;
+
+    if (raw.visibleWhen !== undefined && !isCondition(raw.visibleWhen)) {
+      delete field.visibleWhen;
+      this.repairs.push(`${name}: condição de exibição inválida removida`);
+    }
+
+    taken.push(key);
+    return field;
+  }
+
+  validation(raw: unknown, name: string): FormField['validation'] {
+    if (!isObject(raw)) {
+      this.repairs.push(`${name}: validação inválida removida`);
+      return undefined;
+    }
+
+    const validation = { ...raw } as NonNullable<FormField['validation']>;
+    for (const prop of ['min', 'max', 'minLength', 'maxLength'] as const) {
+      if (raw[prop] !== undefined && !isNumber(raw[prop])) {
+        const parsed = Number(raw[prop]);
+        if (raw[prop] !== null && raw[prop] !== '' && Number.isFinite(parsed)) {
+          validation[prop] = parsed;
+          this.repairs.push(`${name}: "${prop}" convertido para número`);
+        } else {
+          delete validation[prop];
+          this.repairs.push(`${name}: "${prop}" inválido removido`);
+        }
+      }
+    }
+
+    if (raw.pattern !== undefined && (typeof raw.pattern !== 'string' || !isValidPattern(raw.pattern))) {
+      delete validation.pattern;
+      this.repairs.push(`${name}: padrão (regex) inválido removido`);
+    }
+
+    if (isNumber(validation.min) && isNumber(validation.max) && validation.min > validation.max) {
+      this.warnings.push(`${name}: mínimo maior que o máximo`);
+    }
+    if (isNumber(validation.minLength) && isNumber(validation.maxLength) && validation.minLength > validation.maxLength) {
+      this.warnings.push(`${name}: mínimo de caracteres maior que o máximo`);
+    }
+
+    if (raw.rules !== undefined) {
+      const rules = Array.isArray(raw.rules)
+        ? raw.rules.filter((r: unknown) => isObject(r) && typeof r.expression === 'string' && typeof r.message === 'string')
+        : [];
+      if (rules.length !== (Array.isArray(raw.rules) ? raw.rules.length : -1)) {
+        this.repairs.push(`${name}: regras de validação inválidas removidas`);
+      }
+      for (const rule of rules) {
+        const error = checkExpression(rule.expression);
+        if (error) this.warnings.push(`${name}: regra "${rule.expression}" inválida (${error})`);
+      }
+      validation.rules = rules.length ? rules : undefined;
+      if (!validation.rules) delete validation.rules;
+    }
+
+    return Object.keys(validation).length ? validation : undefined;
+  }
+
+  fields(raw: unknown, inGroup = false): FormField[] {
+    if (!Array.isArray(raw)) {
+      if (raw !== undefined) this.repairs.push('Lista de campos inválida descartada');
+      return [];
+    }
+    const taken: string[] = [];
+    return raw.map(item => this.field(item, taken, inGroup)).filter((f): f is FormField => !!f);
+  }
+
+  sections(raw: unknown, fieldKeys: string[]): FormSection[] | undefined {
+    if (raw === undefined) return undefined;
+    if (!Array.isArray(raw)) {
+      this.repairs.push('Etapas inválidas descartadas');
+      return undefined;
+    }
+
+    const ids: string[] = [];
+    const assigned = new Set<string>();
+    const sections = raw.filter(isObject).map((section, index) => {
+      const rawId = typeof section.id === 'string' && section.id ? section.id : `etapa_${index + 1}`;
+      const id = uniqueKey(rawId, [...ids, END_OF_FORM]);
+      if (id !== section.id) this.repairs.push(`Etapa ${index + 1}: id trocado por "${id}"`);
+      ids.push(id);
+
+      const listed: unknown[] = Array.isArray(section.fields) ? section.fields : [];
+      const fields = listed.filter((key): key is string =>
+        typeof key === 'string' && fieldKeys.includes(key) && !assigned.has(key)
+      );
+      fields.forEach(key => assigned.add(key));
+      if (fields.length !== listed.length || !Array.isArray(section.fields)) {
+        this.repairs.push(`Etapa "${id}": campos inexistentes ou repetidos removidos`);
+      }
+
+      return {
+        ...section,
+        id,
+        title: typeof section.title === 'string' ? section.title : `Etapa ${index + 1}`,
+        fields,
+      } as FormSection;
+    });
+
+    if (sections.length !== raw.length) this.repairs.push('Etapas inválidas removidas');
+
+    // Jumps are checked once every section id is known
+    for (const section of sections) {
+      if (section.jumps === undefined) continue;
+      const jumps = Array.isArray(section.jumps) ? section.jumps : [];
+      const valid = jumps.filter(jump =>
+        isObject(jump) && isCondition(jump.when) && (jump.goTo === END_OF_FORM || ids.includes(jump.goTo))
+      );
+      if (valid.length !== jumps.length || !Array.isArray(section.jumps)) {
+        this.repairs.push(`Etapa "${section.id}": saltos inválidos removidos`);
+      }
+      section.jumps = valid;
+      if (fieldKeys.length && section.fields.length === 0) {
+        this.warnings.push(`Etapa "${section.id}" não tem campos`);
+      }
+    }
+
+    return sections.length ? sections : undefined;
+  }
+
+  settings(raw: unknown): FormSchema['settings'] {
+    if (!isObject(raw)) {
+      this.repairs.push('Configurações ausentes; usados os valores padrão');
+      return { allowAnonymous: true, showProgress: true, submitText: '' };
+    }
+
+    const settings = { ...raw } as FormSchema['settings'];
+    // An empty submitText falls back to the translated default button text
+    const defaults: Pick<FormSchema['settings'], 'allowAnonymous' | 'showProgress' | 'submitText'> = {
+      allowAnonymous: true,
+      showProgress: true,
+      submitText: '',
+    };
+    const useDefault = <K extends keyof typeof defaults>(prop: K) => {
+      settings[prop] = defaults[prop];
+    };
+    for (const prop of Object.keys(defaults) as Array<keyof typeof defaults>) {
+      if (typeof raw[prop] !== typeof defaults[prop]) {
+        useDefault(prop);
+        this.repairs.push(`Configuração "${prop}" ausente ou inválida; usado o padrão`);
+      }
+    }
+    if (raw.locale !== undefined && !isLocale(raw.locale)) {
+      delete settings.locale;
+      this.repairs.push(`Idioma "${raw.locale}" não suportado removido`);
+    }
+    if (raw.completionMessage !== undefined && typeof raw.completionMessage !== 'string') {
+      delete settings.completionMessage;
+      this.repairs.push('Mensagem final inválida removida');
+    }
+    return settings;
+  }
+}
+
+// Normalizes a schema from the LLM, an import or the database: repairs what is safe to
+// repair (duplicate keys, lists without options, invalid regexes, missing settings, ...)
+// and reports the rest. Running it on its own output makes no further repairs.
+export function sanitizeSchema(input: unknown): SchemaReport {
+  const sanitizer = new SchemaSanitizer();
+  const raw = isObject(input) ? input : {};
+  if (!isObject(input)) sanitizer.repairs.push('O schema recebido não é um objeto');
+
+  const fields = sanitizer.fields(raw.fields);
+  if (fields.length === 0) sanitizer.warnings.push('O formulário não tem campos');
+
+  const fieldKeys = fields.map(f => f.key);
+  const schema: FormSchema = {
+    ...raw,
+    title: typeof raw.title === 'string' && raw.title.trim() ? raw.title : 'Formulário sem título',
+    description: typeof raw.description === 'string' ? raw.description : '',
+    fields,
+    sections: sanitizer.sections(raw.sections, fieldKeys),
+    settings: sanitizer.settings(raw.settings),
+  };
+  if (schema.title !== raw.title) sanitizer.repairs.push('Título ausente; usado "Formulário sem título"');
+  if (raw.description !== undefined && schema.description !== raw.description) {
+    sanitizer.repairs.push('Descrição inválida removida');
+  }
+  if (!schema.sections) delete schema.sections;
+
+  if (raw.translations !== undefined) {
+    const translations = isObject(raw.translations)
+      ? Object.fromEntries(Object.entries(raw.translations).filter(([locale, t]) => isLocale(locale) && isObject(t)))
+      : {};
+    if (Object.keys(translations).length !== (isObject(raw.translations) ? Object.keys(raw.translations).length : -1)) {
+      sanitizer.repairs.push('Traduções inválidas removidas');
+    }
+    schema.translations = translations;
+  }
+
+  const conditions = [
+    ...fields.flatMap(f => f.visibleWhen ? [f.visibleWhen] : []),
+    ...(schema.sections ?? []).flatMap(s => (s.jumps ?? []).map(j => j.when)),
+  ];
+  const unknownRefs = new Set(conditions.flatMap(conditionFields).filter(key => !fieldKeys.includes(key)));
+  unknownRefs.forEach(key => sanitizer.warnings.push(`Condição usa o campo inexistente "${key}"`));
+
+  if (!validateMetaSchema(schema)) {
+    for (const error of validateMetaSchema.errors ?? []) {
+      sanitizer.warnings.push(`${error.instancePath || '/'} ${error.message}`);
+    }
+  }
+
+  return { schema, repairs: sanitizer.repairs, warnings: sanitizer.warnings };
+}
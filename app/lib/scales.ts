@@ -0,0 +1,95 @@
+import type { FormField } from "~/components/form/FormFactory";
+import { createTranslator, DEFAULT_LOCALE, type Locale } from "~/lib/i18n";
+
+export const SCALE_TYPES = ['rating', 'nps', 'scale', 'slider'] as const;
+
+export interface ScaleRange {
+  min: number;
+  max: number;
+  step: number;
+  minLabel?: string;
+  maxLabel?: string;
+}
+
+export const isScaleField = (field: Pick<FormField, 'type'>) =>
+  (SCALE_TYPES as readonly string[]).includes(field.type);
+
+export function getScaleRange(field: FormField, locale: Locale = DEFAULT_LOCALE): ScaleRange {
+  const scale = field.scale ?? {};
+
+  switch (field.type) {
+    case 'rating':
+      return { min: 1, max: scale.max ?? 5, step: 1 };
+    case 'nps': {
+      const t = createTranslator(locale);
+      return {
+        min: 0,
+        max: 10,
+        step: 1,
+        minLabel: scale.minLabel ?? t('form.npsMin'),
+        maxLabel: scale.maxLabel ?? t('form.npsMax'),
+      };
+    }
+    case 'slider':
+      return { min: scale.min ?? 0, max: scale.max ?? 100, step: scale.step ?? 1, minLabel: scale.minLabel, maxLabel: scale.maxLabel };
+    default:
+      return { min: scale.min ?? 1, max: scale.max ?? 5, step: scale.step ?? 1, minLabel: scale.minLabel, maxLabel: scale.maxLabel };
+  }
+}
+
+export function getScaleSteps(range: ScaleRange): number[] {
+  const steps: number[] = [];
+  for (let value = range.min; value <= range.max; value += range.step) {
+    steps.push(Number(value.toFixed(6)));
+  }
+  return steps;
+}
+
+export interface ScaleSummary {
+  count: number;
+  average: number | null;
+  distribution: Array<{ label: string; count: number }>;
+  // Net Promoter Score (-100 to 100), only for nps fields
+  nps?: number;
+}
+
+// Scales with many steps (typically sliders) are grouped into at most 10 buckets.
+// `values` holds how many answers gave each value.
+export function summarizeScale(field: FormField, values: Array<{ value: number; count: number }>): ScaleSummary {
+  const range = getScaleRange(field);
+  const counted = values.filter(v => typeof v.value === 'number' && !Number.isNaN(v.value));
+  const countWhere = (matches: (value: number) => boolean) =>
+    counted.filter(v => matches(v.value)).reduce((sum, v) => sum + v.count, 0);
+  const count = countWhere(() => true);
+  const average = count > 0 ? counted.reduce((sum, v) => sum + v.value * v.count, 0) / count : null;
+
+  const steps = getScaleSteps(range);
+  let distribution: ScaleSummary['distribution'];
+
+  if (steps.length <= 11) {
+    distribution = steps.map(step => ({
+      label: String(step),
+      count: countWhere(v => v === step),
+    }));
+  } else {
+    const bucketSize = (range.max - range.min) / 10;
+    distribution = Array.from({ length: 10 }, (_, i) => {
+      const from = range.min + i * bucketSize;
+      const to = i === 9 ? range.max : from + bucketSize;
+      return {
+        label: `${Math.round(from)}–${Math.round(to)}`,
+        count: countWhere(v => v >= from && (i === 9 ? v <= to : v < to)),
+      };
+    });
+  }
+
+  const summary: ScaleSummary = { count, average, distribution };
+
+  if (field.type === 'nps' && count > 0) {
+    const promoters = countWhere(v => v >= 9);
+    const detractors = countWhere(v => v <= 6);
+    summary.nps = Math.round(((promoters - detractors) / count) * 100);
+  }
+
+  return summary;
+}
@@ -0,0 +1,89 @@
+import type { FormField, FormSchema } from "~/components/form/FormFactory";
+
+export type FormProperty = 'title' | 'description' | 'sections' | 'settings';
+
+export type SchemaChange =
+  | { id: string; kind: 'added'; key: string; after: FormField }
+  | { id: string; kind: 'removed'; key: string; before: FormField }
+  | { id: string; kind: 'modified'; key: string; before: FormField; after: FormField; properties: string[] }
+  | { id: string; kind: 'form'; property: FormProperty; before: unknown; after: unknown };
+
+const FORM_PROPERTIES: FormProperty[] = ['title', 'description', 'sections', 'settings'];
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+function changedProperties(before: FormField, after: FormField) {
+  const properties = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof FormField>;
+  return [...properties].filter(p => !same(before[p], after[p]));
+}
+
+// Field-level changes between two versions of a schema, matched by key.
+// A renamed key shows up as one field removed and another added.
+export function diffSchemas(before: FormSchema, after: FormSchema): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const beforeByKey = new Map(before.fields.map(f => [f.key, f]));
+  const afterByKey = new Map(after.fields.map(f => [f.key, f]));
+
+  for (const property of FORM_PROPERTIES) {
+    if (!same(before[property], after[property])) {
+      changes.push({ id: `form:${property}`, kind: 'form', property, before: before[property], after: after[property] });
+    }
+  }
+
+  for (const field of after.fields) {
+    const previous = beforeByKey.get(field.key);
+    if (!previous) {
+      changes.push({ id: `added:${field.key}`, kind: 'added', key: field.key, after: field });
+    } else {
+      const properties = changedProperties(previous, field);
+      if (properties.length) {
+        changes.push({ id: `modified:${field.key}`, kind: 'modified', key: field.key, before: previous, after: field, properties });
+      }
+    }
+  }
+
+  for (const field of before.fields) {
+    if (!afterByKey.has(field.key)) {
+      changes.push({ id: `removed:${field.key}`, kind: 'removed', key: field.key, before: field });
+    }
+  }
+
+  return changes;
+}
+
+// Builds the schema resulting from applying only the accepted changes to `before`.
+// Fields follow the proposed order; rejected removals stay where they were.
+export function applyChanges(before: FormSchema, after: FormSchema, changes: SchemaChange[], accepted: Set<string>): FormSchema {
+  const isAccepted = (change?: SchemaChange) => !!change && accepted.has(change.id);
+  const byId = new Map(changes.map(c => [c.id, c]));
+  const beforeByKey = new Map(before.fields.map(f => [f.key, f]));
+
+  const fields: FormField[] = [];
+  for (const field of after.fields) {
+    const previous = beforeByKey.get(field.key);
+    if (!previous) {
+      if (isAccepted(byId.get(`added:${field.key}`))) fields.push(field);
+    } else {
+      fields.push(isAccepted(byId.get(`modified:${field.key}`)) ? field : previous);
+    }
+  }
+
+  before.fields.forEach((field, index) => {
+    const removal = byId.get(`removed:${field.key}`);
+    if (!removal || isAccepted(removal)) return;
+    // Re-insert after the closest preceding field that is still present
+    const anchor = before.fields.slice(0, index).reverse().find(f => fields.some(kept => kept.key === f.key));
+    const position = anchor ? fields.findIndex(f => f.key === anchor.key) + 1 : 0;
+    fields.splice(position, 0, field);
+  });
+
+  const result: FormSchema = { ...before, fields };
+  // Generic so the value type follows the property
+  const take = <K extends FormProperty>(property: K) => {
+    result[property] = after[property];
+  };
+  for (const property of FORM_PROPERTIES) {
+    if (isAccepted(byId.get(`form:${property}`))) take(property);
+  }
+  return result;
+}
@@ -0,0 +1,54 @@
+import type { FormField, FormSchema, FormSection } from "~/components/form/FormFactory";
+import { evaluateCondition } from "~/lib/conditions";
+
+export const END_OF_FORM = 'end';
+
+// Forms without sections behave as a single page holding every field.
+// Fields not listed in any section are appended to the last one.
+export function getSections(schema: FormSchema): FormSection[] {
+  if (!schema.sections?.length) {
+    return [{ id: 'main', title: schema.title, fields: schema.fields.map(f => f.key) }];
+  }
+
+  const assigned = new Set(schema.sections.flatMap(s => s.fields));
+  const unassigned = schema.fields.filter(f => !assigned.has(f.key)).map(f => f.key);
+  if (unassigned.length === 0) return schema.sections;
+
+  const sections = [...schema.sections];
+  const last = sections[sections.length - 1];
+  sections[sections.length - 1] = { ...last, fields: [...last.fields, ...unassigned] };
+  return sections;
+}
+
+export function getSectionFields(schema: FormSchema, section: FormSection): FormField[] {
+  return section.fields
+    .map(key => schema.fields.find(f => f.key === key))
+    .filter((f): f is FormField => !!f);
+}
+
+// Returns the id of the section that follows `currentId`, or null when the form ends there.
+export function getNextSectionId(sections: FormSection[], currentId: string, answers: Record<string, any>): string | null {
+  const index = sections.findIndex(s => s.id === currentId);
+  if (index === -1) return null;
+
+  const jump = sections[index].jumps?.find(j => evaluateCondition(j.when, answers));
+  if (jump) {
+    if (jump.goTo === END_OF_FORM) return null;
+    if (sections.some(s => s.id === jump.goTo)) return jump.goTo;
+  }
+
+  return sections[index + 1]?.id ?? null;
+}
+
+// Predicts the sections still ahead (current included) given the answers so far.
+export function getRemainingPath(sections: FormSection[], fromId: string, answers: Record<string, any>): string[] {
+  const path: string[] = [];
+  let current: string | null = fromId;
+
+  while (current && !path.includes(current)) {
+    path.push(current);
+    current = getNextSectionId(sections, current, answers);
+  }
+
+  return path;
+}
@@ -0,0 +1,77 @@
+import { supabase } from "./supabaseClient";
+import type { DraftKey } from "./drafts";
+
+export const UPLOADS_BUCKET = "form-uploads";
+
+export interface FileReference {
+  path: string;
+  name: string;
+  size: number;
+  type: string;
+}
+
+// Turns accept entries such as "image/*" or "application/pdf" into a MIME type regex.
+export function acceptToPattern(accept: string[]): string {
+  const alternatives = accept.map(mime =>
+    mime.trim().replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
+  );
+  return `^(${alternatives.join('|')})$`;
+}
+
+export function isAcceptedType(file: File, accept?: string[]): boolean {
+  if (!accept?.length) return true;
+  return new RegExp(acceptToPattern(accept)).test(file.type);
+}
+
+// Files go under the draft's id and token; the upload policy (supabase/sql/storage.sql)
+// only lets them in while the token matches a draft
+export async function uploadResponseFile(
+  draft: DraftKey,
+  fieldKey: string,
+  file: File,
+  onProgress?: (percent: number) => void
+): Promise<FileReference> {
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const path = `${draft.id}/${draft.token}/${fieldKey}/${crypto.randomUUID()}-${safeName}`;
+
+  const { data, error } = await supabase.storage
+    .from(UPLOADS_BUCKET)
+    .createSignedUploadUrl(path);
+
+  if (error) {
+    throw new Error(`Failed to prepare upload: ${error.message}`);
+  }
+
+  // supabase-js does not report upload progress, so the signed URL is used with XHR
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', data.signedUrl);
+    xhr.setRequestHeader('Content-Type', file.type || 'application/octet-stream');
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(Math.round((event.loaded / event.total) * 100));
+    };
+    xhr.onload = () => xhr.status < 300 ? resolve() : reject(new Error(`Upload failed with status ${xhr.status}`));
+    xhr.onerror = () => reject(new Error('Upload failed'));
+    xhr.send(file);
+  });
+
+  return { path, name: file.name, size: file.size, type: file.type };
+}
+
+export async function getSignedFileUrls(paths: string[], expiresIn = 60 * 60): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(UPLOADS_BUCKET)
+    .createSignedUrls(paths, expiresIn);
+
+  if (error) {
+    throw new Error(`Failed to sign file URLs: ${error.message}`);
+  }
+
+  const urls: Record<string, string> = {};
+  for (const entry of data ?? []) {
+    if (entry.path && entry.signedUrl) urls[entry.path] = entry.signedUrl;
+  }
+  return urls;
+}
@@ -0,0 +1,163 @@
+import type { FormField } from "~/components/form/FormFactory";
+import { createTranslator, formatDate, formatNumber, DEFAULT_LOCALE, type Locale } from "~/lib/i18n";
+import { isScaleField, summarizeScale, type ScaleSummary } from "~/lib/scales";
+
+// Per-field summaries for the responses page, built from the aggregates of submitted
+// answers computed in the database (form_summary in supabase/sql/response_aggregates.sql).
+
+export interface Bucket {
+  label: string;
+  count: number;
+}
+
+export interface FieldAggregate {
+  field_key: string;
+  // Submitted responses that answered the field
+  answered: number;
+  // Choice, scale and date fields: how often each value was given (list answers per item)
+  values: Array<{ value: unknown; count: number }> | null;
+  // Number fields; buckets are the values themselves when `exact`, otherwise 1–10
+  number: {
+    mean: number;
+    median: number;
+    min: number;
+    max: number;
+    exact: boolean;
+    buckets: Array<{ bucket: number; count: number }>;
+  } | null;
+}
+
+export interface VolumeDay {
+  // YYYY-MM-DD
+  day: string;
+  count: number;
+}
+
+export type FieldSummary =
+  | { kind: 'choice'; field: FormField; count: number; distribution: Bucket[] }
+  | { kind: 'scale'; field: FormField; count: number; scale: ScaleSummary }
+  | { kind: 'number'; field: FormField; count: number; mean: number | null; median: number | null; min: number | null; max: number | null; histogram: Bucket[] }
+  | { kind: 'date'; field: FormField; count: number; earliest: string | null; latest: string | null; distribution: Bucket[] }
+  | { kind: 'text'; field: FormField; count: number };
+
+const CHOICE_TYPES: FormField['type'][] = ['select', 'radio', 'multiselect', 'checkbox'];
+
+function histogram(number: NonNullable<FieldAggregate['number']>, locale: Locale): Bucket[] {
+  if (number.exact || number.min === number.max) {
+    return number.buckets.map(({ bucket, count }) => ({ label: formatNumber(bucket, locale), count }));
+  }
+
+  const size = (number.max - number.min) / 10;
+  return Array.from({ length: 10 }, (_, i) => ({
+    label: `${formatNumber(number.min + i * size, locale, 1)}–${formatNumber(number.min + (i + 1) * size, locale, 1)}`,
+    count: number.buckets.find(b => b.bucket === i + 1)?.count ?? 0,
+  }));
+}
+
+const monthLabel = (month: string, locale: Locale) =>
+  new Date(Number(month.slice(0, 4)), Number(month.slice(5, 7)) - 1, 1).toLocaleDateString(locale, { month: 'short', year: 'numeric' });
+
+// Every month (or year, past two years) between the first and last date, empty ones included
+function dateDistribution(dates: Array<{ date: string; count: number }>, locale: Locale): Bucket[] {
+  if (dates.length === 0) return [];
+  const first = dates[0].date.slice(0, 7);
+  const last = dates[dates.length - 1].date.slice(0, 7);
+  const months = (Number(last.slice(0, 4)) - Number(first.slice(0, 4))) * 12 + Number(last.slice(5, 7)) - Number(first.slice(5, 7));
+  const countWhere = (matches: (date: string) => boolean) =>
+    dates.filter(d => matches(d.date)).reduce((sum, d) => sum + d.count, 0);
+
+  if (months > 24) {
+    const firstYear = Number(first.slice(0, 4));
+    return Array.from({ length: Number(last.slice(0, 4)) - firstYear + 1 }, (_, i) => ({
+      label: String(firstYear + i),
+      count: countWhere(date => Number(date.slice(0, 4)) === firstYear + i),
+    }));
+  }
+
+  return Array.from({ length: months + 1 }, (_, i) => {
+    const date = new Date(Number(first.slice(0, 4)), Number(first.slice(5, 7)) - 1 + i, 1);
+    const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    return { label: monthLabel(month, locale), count: countWhere(d => d.startsWith(month)) };
+  });
+}
+
+// Choice distributions count respondents per option, so multiselect percentages may add up to more than 100%
+export function summarizeField(field: FormField, aggregate: FieldAggregate | undefined, locale: Locale = DEFAULT_LOCALE): FieldSummary {
+  const count = aggregate?.answered ?? 0;
+  const values = aggregate?.values ?? [];
+  const countOf = (matches: (value: unknown) => boolean) =>
+    values.filter(v => matches(v.value)).reduce((sum, v) => sum + v.count, 0);
+
+  if (isScaleField(field)) {
+    const counts = values.map(({ value, count }) => ({ value: Number(value), count }));
+    return { kind: 'scale', field, count, scale: summarizeScale(field, counts) };
+  }
+
+  if (CHOICE_TYPES.includes(field.type)) {
+    if (field.type === 'checkbox') {
+      const checked = countOf(value => value === true);
+      const t = createTranslator(locale);
+      return { kind: 'choice', field, count, distribution: [{ label: t('form.yes'), count: checked }, { label: t('form.no'), count: count - checked }] };
+    }
+
+    const options = field.options ?? [];
+    // Answers no longer among the options (e.g. the option was removed) are kept under their value
+    const unknown = values.filter(v => !options.some(o => o.value === String(v.value)));
+    return {
+      kind: 'choice',
+      field,
+      count,
+      distribution: [
+        ...options.map(option => ({ label: option.label, count: countOf(value => String(value) === option.value) })),
+        ...unknown.map(v => ({ label: String(v.value), count: v.count })),
+      ],
+    };
+  }
+
+  if (aggregate?.number) {
+    const { mean, median, min, max } = aggregate.number;
+    return { kind: 'number', field, count, mean, median, min, max, histogram: histogram(aggregate.number, locale) };
+  }
+  if (field.type === 'number') {
+    return { kind: 'number', field, count, mean: null, median: null, min: null, max: null, histogram: [] };
+  }
+
+  if (field.type === 'date') {
+    const dates = values
+      .map(v => ({ date: String(v.value), count: v.count }))
+      .filter(d => /^\d{4}-\d{2}-\d{2}$/.test(d.date))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    return {
+      kind: 'date',
+      field,
+      count,
+      earliest: dates.length ? formatDate(dates[0].date, locale) : null,
+      latest: dates.length ? formatDate(dates[dates.length - 1].date, locale) : null,
+      distribution: dateDistribution(dates, locale),
+    };
+  }
+
+  return { kind: 'text', field, count };
+}
+
+const parseDay = (day: string) => new Date(Number(day.slice(0, 4)), Number(day.slice(5, 7)) - 1, Number(day.slice(8, 10)));
+
+// Responses per day, or per week when they span more than two months, with empty periods included
+export function summarizeVolume(days: VolumeDay[], locale: Locale = DEFAULT_LOCALE): Bucket[] {
+  if (days.length === 0) return [];
+
+  const counts = days.map(d => ({ date: parseDay(d.day), count: d.count }));
+  const first = counts[0].date;
+  const last = counts[counts.length - 1].date;
+  const step = Math.round((last.getTime() - first.getTime()) / (24 * 60 * 60 * 1000)) > 62 ? 7 : 1;
+  const buckets: Bucket[] = [];
+
+  for (let start = first; start <= last; start = new Date(start.getFullYear(), start.getMonth(), start.getDate() + step)) {
+    const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + step);
+    buckets.push({
+      label: start.toLocaleDateString(locale, { day: '2-digit', month: 'short' }),
+      count: counts.filter(d => d.date >= start && d.date < end).reduce((sum, d) => sum + d.count, 0),
+    });
+  }
+  return buckets;
+}
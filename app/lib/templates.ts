@@ -0,0 +1,67 @@
+import type { FormField } from "~/components/form/FormFactory";
+import { createTranslator, DEFAULT_LOCALE, type Locale } from "~/lib/i18n";
+
+// Matches {{key}} and {{key|fallback}}
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*(?:\|([^}]*))?\}\}/g;
+
+function formatAnswer(field: FormField | undefined, value: unknown, locale: Locale): string {
+  if (value === undefined || value === null || value === '') return '';
+
+  const optionLabel = (v: unknown) =>
+    field?.options?.find(o => o.value === String(v))?.label ?? String(v);
+
+  if (Array.isArray(value)) {
+    return value.every(v => typeof v !== 'object') ? value.map(optionLabel).join(', ') : '';
+  }
+  if (typeof value === 'boolean') {
+    const t = createTranslator(locale);
+    return value ? t('form.yes') : t('form.no');
+  }
+  if (typeof value === 'object') return '';
+  return optionLabel(value);
+}
+
+// Replaces placeholders with the respondent's answers in a single pass, so text typed
+// by the respondent is never expanded again. The result is plain text and is rendered
+// by React as such, never as HTML.
+export function resolveTemplate(
+  template: string,
+  answers: Record<string, any>,
+  fields: FormField[] = [],
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  if (!template.includes('{{')) return template;
+
+  return template.replace(PLACEHOLDER, (_, key: string, fallback?: string) => {
+    const field = fields.find(f => f.key === key);
+    const text = formatAnswer(field, answers[key], locale).trim();
+    return text || (fallback ?? '').trim();
+  });
+}
+
+export function hasTemplate(text?: string) {
+  return !!text && text.includes('{{');
+}
+
+// Returns the field with label, description and placeholder resolved against the answers.
+export function resolveFieldTemplates(
+  field: FormField,
+  answers: Record<string, any>,
+  fields: FormField[],
+  locale: Locale = DEFAULT_LOCALE
+): FormField {
+  const children = field.fields?.map(child => resolveFieldTemplates(child, answers, fields, locale));
+  const childrenChanged = children?.some((child, i) => child !== field.fields![i]);
+
+  if (!hasTemplate(field.label) && !hasTemplate(field.description) && !hasTemplate(field.placeholder) && !childrenChanged) {
+    return field;
+  }
+
+  return {
+    ...field,
+    label: resolveTemplate(field.label, answers, fields, locale),
+    description: field.description && resolveTemplate(field.description, answers, fields, locale),
+    placeholder: field.placeholder && resolveTemplate(field.placeholder, answers, fields, locale),
+    fields: children,
+  };
+}
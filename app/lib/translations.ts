@@ -0,0 +1,116 @@
+import type { FieldTranslation, FormField, FormSchema, FormTranslation } from "~/components/form/FormFactory";
+import { DEFAULT_LOCALE, isLocale, type Locale } from "~/lib/i18n";
+
+const labelsByValue = (items?: Array<{ value: string; label: string }>) =>
+  items?.length ? Object.fromEntries(items.map(item => [item.value, item.label])) : undefined;
+
+function extractField(field: FormField): FieldTranslation {
+  return {
+    label: field.label,
+    description: field.description,
+    placeholder: field.placeholder,
+    options: labelsByValue(field.options),
+    rows: labelsByValue(field.matrix?.rows),
+    columns: labelsByValue(field.matrix?.columns),
+    minLabel: field.scale?.minLabel,
+    maxLabel: field.scale?.maxLabel,
+    itemLabel: field.repeat?.itemLabel,
+    fields: field.fields?.length
+      ? Object.fromEntries(field.fields.map(child => [child.key, extractField(child)]))
+      : undefined,
+  };
+}
+
+// The translatable text of a schema in its own language, in the same shape as a translation.
+export function extractTranslation(schema: FormSchema): FormTranslation {
+  return JSON.parse(JSON.stringify({
+    title: schema.title,
+    description: schema.description,
+    submitText: schema.settings.submitText,
+    completionMessage: schema.settings.completionMessage,
+    fields: Object.fromEntries(schema.fields.map(field => [field.key, extractField(field)])),
+    sections: schema.sections?.length
+      ? Object.fromEntries(schema.sections.map(s => [s.id, { title: s.title, description: s.description }]))
+      : undefined,
+  }));
+}
+
+// Keeps only string values found at the same paths as in `base`, so a translation
+// (typically from the LLM) can never add keys or change anything but text.
+export function sanitizeTranslation(value: unknown, base: unknown): any {
+  if (typeof base === 'string') {
+    return typeof value === 'string' && value.trim() ? value : undefined;
+  }
+  if (!base || typeof base !== 'object' || !value || typeof value !== 'object') return undefined;
+
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(base)) {
+    const sanitized = sanitizeTranslation((value as Record<string, unknown>)[key], (base as Record<string, unknown>)[key]);
+    if (sanitized !== undefined) result[key] = sanitized;
+  }
+  return Object.keys(result).length ? result : undefined;
+}
+
+export function getSourceLocale(schema: FormSchema): Locale {
+  return schema.settings.locale ?? DEFAULT_LOCALE;
+}
+
+export function getAvailableLocales(schema: FormSchema): Locale[] {
+  const translated = Object.keys(schema.translations ?? {}).filter(isLocale);
+  return [getSourceLocale(schema), ...translated.filter(l => l !== getSourceLocale(schema))];
+}
+
+const translateItems = (items: Array<{ value: string; label: string }> | undefined, labels?: Record<string, string>) =>
+  items?.map(item => ({ ...item, label: labels?.[item.value] ?? item.label }));
+
+function localizeField(field: FormField, translation?: FieldTranslation): FormField {
+  if (!translation) return field;
+
+  return {
+    ...field,
+    label: translation.label ?? field.label,
+    description: translation.description ?? field.description,
+    placeholder: translation.placeholder ?? field.placeholder,
+    options: translateItems(field.options, translation.options),
+    scale: field.scale && {
+      ...field.scale,
+      minLabel: translation.minLabel ?? field.scale.minLabel,
+      maxLabel: translation.maxLabel ?? field.scale.maxLabel,
+    },
+    matrix: field.matrix && {
+      ...field.matrix,
+      rows: translateItems(field.matrix.rows, translation.rows)!,
+      columns: translateItems(field.matrix.columns, translation.columns)!,
+    },
+    repeat: field.repeat && {
+      ...field.repeat,
+      itemLabel: translation.itemLabel ?? field.repeat.itemLabel,
+    },
+    fields: field.fields?.map(child => localizeField(child, translation.fields?.[child.key])),
+  };
+}
+
+// Returns the schema with its content in `locale`, falling back to the original text
+// for anything not translated. Keys and option values never change.
+export function localizeSchema(schema: FormSchema, locale: Locale): FormSchema {
+  const translation = schema.translations?.[locale];
+  if (locale === getSourceLocale(schema) || !translation) return schema;
+
+  return {
+    ...schema,
+    title: translation.title ?? schema.title,
+    description: translation.description ?? schema.description,
+    fields: schema.fields.map(field => localizeField(field, translation.fields?.[field.key])),
+    sections: schema.sections?.map(section => ({
+      ...section,
+      title: translation.sections?.[section.id]?.title ?? section.title,
+      description: translation.sections?.[section.id]?.description ?? section.description,
+    })),
+    settings: {
+      ...schema.settings,
+      locale,
+      submitText: translation.submitText ?? schema.settings.submitText,
+      completionMessage: translation.completionMessage ?? schema.settings.completionMessage,
+    },
+  };
+}
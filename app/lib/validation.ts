@@ -0,0 +1,279 @@
+import Ajv, { type ErrorObject, type ValidateFunction } from "ajv";
+import type { FormField, ValidationMessageKey } from "~/components/form/FormFactory";
+import { acceptToPattern } from "~/lib/storage";
+import { getScaleRange } from "~/lib/scales";
+import { evaluateExpression } from "~/lib/expressions";
+import { createTranslator, interpolate, DEFAULT_LOCALE, type Locale, type MessageKey, type Translator } from "~/lib/i18n";
+
+const EMAIL_PATTERN = "^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$";
+const DATE_PATTERN = "^\\d{4}-\\d{2}-\\d{2}$";
+
+// unicodeRegExp is off so patterns behave like the `new RegExp(pattern)` used before;
+// formats are kept as annotations and enforced through patterns instead
+// multipleOfPrecision keeps decimal steps such as 0.1 from failing on rounding errors
+const ajv = new Ajv({ allErrors: true, strict: false, unicodeRegExp: false, validateFormats: false, multipleOfPrecision: 9 });
+const validatorCache = new Map<string, ValidateFunction>();
+
+// Steps counted from a minimum that is not itself a multiple of the step (e.g. 1, 3, 5...),
+// which `multipleOf` cannot express
+ajv.addKeyword({
+  keyword: 'stepFrom',
+  type: 'number',
+  schemaType: 'object',
+  validate: ({ from, step }: { from: number; step: number }, value: number) => {
+    const steps = (value - from) / step;
+    return Math.abs(steps - Math.round(steps)) < 1e-9;
+  },
+});
+
+export const groupChildKey = (groupKey: string, index: number, childKey: string) =>
+  `${groupKey}-${index}-${childKey}`;
+
+export const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const isEmptyAnswer = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '') || (Array.isArray(value) && value.length === 0) ||
+  (typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(isEmptyAnswer));
+
+function fieldToJsonSchema(field: FormField): Record<string, any> {
+  const validation = field.validation ?? {};
+  const optionValues = field.options?.map(o => o.value);
+  const base: Record<string, any> = { title: field.label };
+  if (field.description) base.description = field.description;
+
+  const stringRules = () => {
+    const rules: Record<string, any> = { type: 'string' };
+    if (validation.minLength !== undefined) rules.minLength = validation.minLength;
+    if (validation.maxLength !== undefined) rules.maxLength = validation.maxLength;
+    if (validation.pattern && isValidPattern(validation.pattern)) rules.pattern = validation.pattern;
+    return rules;
+  };
+
+  switch (field.type) {
+    case 'number': {
+      const rules: Record<string, any> = { type: 'number' };
+      if (validation.min !== undefined) rules.minimum = validation.min;
+      if (validation.max !== undefined) rules.maximum = validation.max;
+      return { ...base, ...rules };
+    }
+
+    case 'rating':
+    case 'nps':
+    case 'scale':
+    case 'slider': {
+      const range = getScaleRange(field);
+      const rules: Record<string, any> = { ...base, type: 'number', minimum: range.min, maximum: range.max };
+      // Only values on a step from the minimum can be picked in the form
+      if (range.step > 0) {
+        const offset = range.min / range.step;
+        if (Math.abs(offset - Math.round(offset)) < 1e-9) rules.multipleOf = range.step;
+        else rules.stepFrom = { from: range.min, step: range.step };
+      }
+      return rules;
+    }
+
+    case 'email':
+      return { ...base, ...stringRules(), format: 'email', pattern: validation.pattern && isValidPattern(validation.pattern) ? validation.pattern : EMAIL_PATTERN };
+
+    case 'date':
+      return { ...base, type: 'string', format: 'date', pattern: DATE_PATTERN };
+
+    case 'select':
+    case 'radio':
+      return optionValues?.length ? { ...base, type: 'string', enum: optionValues } : { ...base, type: 'string' };
+
+    case 'multiselect':
+      return {
+        ...base,
+        type: 'array',
+        uniqueItems: true,
+        items: optionValues?.length ? { type: 'string', enum: optionValues } : { type: 'string' },
+      };
+
+    case 'file': {
+      const item: Record<string, any> = {
+        type: 'object',
+        required: ['path', 'name'],
+        properties: {
+          path: { type: 'string' },
+          name: { type: 'string' },
+          size: { type: 'number' },
+          type: { type: 'string' },
+        },
+      };
+      if (field.file?.maxSizeMB) item.properties.size.maximum = field.file.maxSizeMB * 1024 * 1024;
+      if (field.file?.accept?.length) item.properties.type.pattern = acceptToPattern(field.file.accept);
+      return { ...base, type: 'array', items: item, maxItems: field.file?.maxFiles ?? 1 };
+    }
+
+    case 'matrix': {
+      const columnValues = field.matrix?.columns.map(c => c.value) ?? [];
+      const rowValues = field.matrix?.rows.map(r => r.value) ?? [];
+      const cell = columnValues.length ? { type: 'string', enum: columnValues } : { type: 'string' };
+      const answer = field.matrix?.multiple
+        ? { type: 'array', uniqueItems: true, items: cell, ...(field.required ? { minItems: 1 } : {}) }
+        : cell;
+      return {
+        ...base,
+        type: 'object',
+        properties: Object.fromEntries(rowValues.map(row => [row, answer])),
+        additionalProperties: false,
+        ...(field.required ? { required: rowValues } : {}),
+      };
+    }
+
+    case 'group': {
+      const children = field.fields ?? [];
+      const min = field.repeat?.min ?? (field.required ? 1 : 0);
+      const rules: Record<string, any> = { ...base, type: 'array', items: compileFormSchema(children) };
+      delete rules.items.$schema;
+      if (min > 0) rules.minItems = min;
+      if (field.repeat?.max !== undefined) rules.maxItems = field.repeat.max;
+      return rules;
+    }
+
+    case 'calculated':
+      return { ...base, readOnly: true };
+
+    case 'checkbox':
+      return field.required ? { ...base, type: 'boolean', const: true } : { ...base, type: 'boolean' };
+
+    default:
+      return { ...base, ...stringRules() };
+  }
+}
+
+// Compiles a list of form fields into a standard JSON Schema describing the answers object.
+export function compileFormSchema(fields: FormField[]) {
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    type: 'object',
+    properties: Object.fromEntries(fields.map(field => [field.key, fieldToJsonSchema(field)])),
+    required: fields.filter(f => f.required).map(f => f.key),
+  };
+}
+
+function getValidator(fields: FormField[]): ValidateFunction {
+  const jsonSchema = compileFormSchema(fields);
+  const cacheKey = JSON.stringify(jsonSchema);
+  let validate = validatorCache.get(cacheKey);
+  if (!validate) {
+    validate = ajv.compile(jsonSchema);
+    validatorCache.set(cacheKey, validate);
+  }
+  return validate;
+}
+
+function errorMessageKey(field: FormField, error: ErrorObject): MessageKey {
+  if (field.type === 'file') {
+    switch (error.keyword) {
+      case 'required': return 'validation.required';
+      case 'maxItems': return 'validation.fileMaxItems';
+      case 'maximum': return 'validation.fileMaxSize';
+      case 'pattern': return 'validation.fileType';
+      default: return 'validation.invalid';
+    }
+  }
+
+  if (field.type === 'group') {
+    if (error.keyword === 'minItems') return 'validation.groupMinItems';
+    if (error.keyword === 'maxItems') return 'validation.groupMaxItems';
+  }
+
+  if (field.type === 'matrix' && (error.keyword === 'required' || error.keyword === 'minItems') && error.instancePath) {
+    return 'validation.matrixRows';
+  }
+
+  switch (error.keyword) {
+    case 'required': return 'validation.required';
+    case 'const': return field.type === 'checkbox' ? 'validation.required' : 'validation.invalid';
+    case 'minLength': return 'validation.minLength';
+    case 'maxLength': return 'validation.maxLength';
+    case 'minimum': return 'validation.min';
+    case 'maximum': return 'validation.max';
+    case 'pattern': return 'validation.pattern';
+    default: return 'validation.invalid';
+  }
+}
+
+// Per-field overrides in `validation.messages` take precedence over the locale catalogue.
+function fieldMessage(field: FormField, key: MessageKey, t: Translator, limit?: number): string {
+  const params = { label: field.label, limit };
+  const custom = field.validation?.messages?.[key.replace('validation.', '') as ValidationMessageKey];
+  return custom ? interpolate(custom, params) : t(key, params);
+}
+
+function errorMessage(field: FormField, error: ErrorObject, t: Translator): string {
+  const key = errorMessageKey(field, error);
+  return fieldMessage(field, key, t, key === 'validation.fileMaxSize' ? field.file?.maxSizeMB : error.params.limit);
+}
+
+// Removes empty values so that `required` applies to them, including inside group instances.
+function cleanAnswer(field: FormField, value: any): any {
+  if (field.type === 'group' && Array.isArray(value)) {
+    return value.map(instance => Object.fromEntries(
+      Object.entries(instance ?? {}).filter(([, v]) => !isEmptyAnswer(v))
+    ));
+  }
+  return value;
+}
+
+// Validates the answers for the given fields, returning one message per invalid field key.
+// Errors inside group instances are also reported under `groupChildKey(group, index, child)`.
+export function validateAnswers(
+  fields: FormField[],
+  answers: Record<string, any>,
+  locale: Locale = DEFAULT_LOCALE
+): Record<string, string> {
+  const t = createTranslator(locale);
+  const data: Record<string, any> = {};
+  for (const field of fields) {
+    const value = answers[field.key];
+    if (!isEmptyAnswer(value)) data[field.key] = cleanAnswer(field, value);
+  }
+
+  const validate = getValidator(fields);
+  const errors: Record<string, string> = {};
+  const schemaErrors = validate(data) ? [] : validate.errors ?? [];
+
+  for (const error of schemaErrors) {
+    // Top-level `required` errors name the field; nested ones sit under its path
+    const [, key, index, childKey] = error.instancePath.split('/');
+    const field = fields.find(f => f.key === (key ?? error.params.missingProperty));
+    if (!field) continue;
+
+    if (field.type === 'group' && index !== undefined) {
+      const child = field.fields?.find(f => f.key === (childKey ?? error.params.missingProperty));
+      const nestedKey = child && groupChildKey(field.key, Number(index), child.key);
+      if (child && nestedKey && !errors[nestedKey]) errors[nestedKey] = errorMessage(child, error, t);
+      errors[field.key] ??= fieldMessage(field, 'validation.groupItems', t);
+      continue;
+    }
+
+    if (!errors[field.key]) errors[field.key] = errorMessage(field, error, t);
+  }
+
+  // Cross-field rules only run on answered fields that passed the schema checks
+  for (const field of fields) {
+    if (errors[field.key] || !(field.key in data) || !field.validation?.rules) continue;
+    for (const rule of field.validation.rules) {
+      try {
+        if (!evaluateExpression(rule.expression, answers)) {
+          errors[field.key] = rule.message;
+          break;
+        }
+      } catch (error) {
+        console.error(`Error evaluating rule for "${field.key}":`, error);
+      }
+    }
+  }
+
+  return errors;
+}
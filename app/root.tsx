@@ -1,3 +1,4 @@
+import { useEffect } from "react";
 import {
   isRouteErrorResponse,
   Links,
@@ -11,6 +12,7 @@ import type { Route } from "./+types/root";
 import "./app.css";
 import { Toaster } from "~/components/ui/sonner";
 import { AuthBar } from "~/components/auth/AuthBar";
+import { SyncStatus } from "~/components/form/SyncStatus";
 
 export const links: Route.LinksFunction = () => [
   { rel: "preconnect", href: "https://fonts.googleapis.com" },
@@ -40,6 +42,7 @@ export function Layout({ children }: { children: React.ReactNode }) {
         </div>
         {children}
         <Toaster richColors position="top-center"/>
+        <SyncStatus />
         <ScrollRestoration />
         <Scripts />
       </body>
@@ -48,6 +51,15 @@ export function Layout({ children }: { children: React.ReactNode }) {
 }
 
 export default function App() {
+  // The service worker keeps the app shell available offline (see public/sw.js)
+  useEffect(() => {
+    if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+      navigator.serviceWorker.register('/sw.js').catch((error) => {
+        console.error('Error registering service worker:', error);
+      });
+    }
+  }, []);
+
   return <Outlet />;
 }
 
@@ -0,0 +1,515 @@
+import { useState, useEffect, useRef } from "react";
+import { useParams, useSearchParams } from "react-router";
+import { Link } from "react-router";
+import { toast } from "sonner";
+import { ArrowLeft, Link2, Send } from "lucide-react";
+import { supabase } from "~/lib/supabaseClient";
+import { type FormSchema } from "~/components/form/FormFactory";
+import { ChatTranscript } from "~/components/form/ChatTranscript";
+import { Card } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { cn } from "~/lib/utils";
+import { nluMap } from "~/lib/llm";
+import { buildResponseItems } from "~/lib/responses";
+import {
+  createDraft,
+  forgetDraft,
+  getLinkedDraft,
+  getResumeLink,
+  getStoredDraft,
+  loadDraft,
+  saveDraftSession,
+  storeDraft,
+  type DraftKey,
+} from "~/lib/drafts";
+import { sendSubmission } from "~/lib/offline";
+import { resolveTemplate } from "~/lib/templates";
+import { sanitizeSchema } from "~/lib/sanitize";
+import { validateAnswers } from "~/lib/validation";
+import { createTranslator, negotiateLocale, resolveLocale } from "~/lib/i18n";
+import { getAvailableLocales, getSourceLocale, localizeSchema } from "~/lib/translations";
+import {
+  coerceAnswer,
+  describeQuestion,
+  formatChatAnswer,
+  getChatFields,
+  getChatSubmission,
+  getNextChatField,
+  getUncertainField,
+  hasFormOnlyFields,
+  isChatField,
+  isUncertain,
+  parseNluResult,
+  parseYesNo,
+  parseTranscript,
+  replayTranscript,
+  type ChatTurn,
+} from "~/lib/chat";
+
+export function meta() {
+  return [
+    { title: "Responder por Chat - FormCraft" },
+    { name: "description", content: "Responda ao formulário conversando" },
+  ];
+}
+
+const assistantTurn = (text: string, fields?: string[]): ChatTurn =>
+  ({ role: 'assistant', text, at: new Date().toISOString(), fields });
+
+export default function ChatResponse() {
+  const { id } = useParams();
+  const [searchParams] = useSearchParams();
+  const [schema, setSchema] = useState<FormSchema | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [formTitle, setFormTitle] = useState("");
+  const [draft, setDraft] = useState<DraftKey | null>(null);
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  // Transcript of the resumed draft; null until the draft has been looked up
+  const [restored, setRestored] = useState<ChatTurn[] | null>(null);
+  const [answers, setAnswers] = useState<Record<string, any>>({});
+  const [confidence, setConfidence] = useState<Record<string, number>>({});
+  const [skipped, setSkipped] = useState<string[]>([]);
+  // Field the assistant is currently asking about
+  const [askedKey, setAskedKey] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+  const [thinking, setThinking] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [submittedAnswers, setSubmittedAnswers] = useState<Record<string, any> | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const browserLocales = typeof navigator !== 'undefined' ? navigator.languages : [];
+  const locale = schema
+    ? negotiateLocale(getAvailableLocales(schema), searchParams.get('lang'), ...browserLocales)
+    : resolveLocale(searchParams.get('lang'), ...browserLocales);
+  const t = createTranslator(locale);
+  // Questions are asked in the respondent's language; answers are stored as option values
+  const localizedSchema = schema ? localizeSchema(schema, locale) : null;
+  const confirmField = localizedSchema ? getUncertainField(localizedSchema, answers, confidence) : null;
+
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchForm = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('forms')
+          .select('title, description, schema_json')
+          .eq('id', id)
+          .eq('is_public', true)
+          .single();
+
+        if (error) throw error;
+
+        setFormTitle(data.title);
+        setSchema(sanitizeSchema(data.schema_json).schema);
+      } catch (error) {
+        console.error('Error fetching form:', error);
+        toast.error(t('route.notFound'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchForm();
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+
+    // Resume the draft from a shared link or from this browser, otherwise start a new one
+    const startResponse = async () => {
+      let transcript: ChatTurn[] = [];
+      try {
+        const resumeKey = getLinkedDraft(searchParams) ?? getStoredDraft('chat', id);
+        const resumed = resumeKey ? await loadDraft(id, resumeKey) : null;
+        const draftKey = resumed ?? await createDraft(id);
+        transcript = parseTranscript(resumed?.turns);
+        storeDraft('chat', id, draftKey);
+        setDraft(draftKey);
+      } catch (error) {
+        console.error('Error creating draft response:', error);
+      } finally {
+        setRestored(transcript);
+      }
+    };
+
+    startResponse();
+  }, [id]);
+
+  // Once the form is loaded, replay the saved conversation or greet and ask the first question
+  useEffect(() => {
+    if (!localizedSchema || !restored || turns.length > 0) return;
+
+    if (restored.length > 0) {
+      const state = replayTranscript(localizedSchema, restored);
+      setAnswers(state.answers);
+      setConfidence(state.confidence);
+      setSkipped(state.skipped);
+      setAskedKey(state.askedKey);
+      setTurns(restored);
+      return;
+    }
+
+    const greeting = assistantTurn(t('chat.greeting', { title: localizedSchema.title }));
+    setTurns([greeting, ...askNext(answers, confidence, skipped)]);
+  }, [localizedSchema, restored, turns.length]);
+
+  // Every turn is stored so the conversation can be resumed and replayed by the owner
+  useEffect(() => {
+    if (!draft || turns.length === 0 || submittedAnswers) return;
+
+    const saveTranscript = async () => {
+      try {
+        await saveDraftSession(draft, {
+          turns_json: turns,
+          // Where the respondent stopped, for the drop-off funnel
+          last_field_key: askedKey,
+        });
+      } catch (error) {
+        console.error('Error saving transcript:', error);
+      }
+    };
+
+    saveTranscript();
+  }, [turns, draft]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [turns, thinking]);
+
+  // Returns the assistant's next turn and tracks the pending question. Uncertain extractions
+  // are confirmed before moving on; then comes the next question or the closing message.
+  const askNext = (nextAnswers: Record<string, any>, nextConfidence: Record<string, number>, nextSkipped: string[]): ChatTurn[] => {
+    if (!localizedSchema) return [];
+    const next = getNextChatField(localizedSchema, nextAnswers, nextSkipped);
+    setAskedKey(next?.key ?? null);
+
+    const uncertain = getUncertainField(localizedSchema, nextAnswers, nextConfidence);
+    if (uncertain) {
+      const value = formatChatAnswer(uncertain, nextAnswers, localizedSchema.fields, t, locale);
+      return [assistantTurn(t('chat.confirm', { value, label: uncertain.label }))];
+    }
+
+    return next
+      ? [assistantTurn(describeQuestion(next, t, locale), [next.key])]
+      : [assistantTurn(t('chat.done'))];
+  };
+
+  const onSend = async () => {
+    const text = message.trim();
+    if (!text || !localizedSchema || thinking) return;
+
+    setMessage("");
+    // A plain yes/no answers the pending confirmation; anything else is read as a new answer
+    const confirmation = confirmField ? parseYesNo(text) : undefined;
+    if (confirmation !== undefined) {
+      onConfirm(confirmation, text);
+      return;
+    }
+
+    setTurns(prev => [...prev, { role: 'user', text, at: new Date().toISOString() }]);
+    setThinking(true);
+
+    // Any askable field may be filled, including ones the answer is about to reveal
+    const candidates = localizedSchema.fields.filter(isChatField);
+    let parsed = { answers: {} as Record<string, unknown>, confidence: {} as Record<string, number> };
+    try {
+      parsed = parseNluResult(await nluMap(text, localizedSchema, answers), candidates);
+    } catch (error) {
+      console.error('Error mapping message:', error);
+    }
+
+    // Nothing mapped: the reply may simply be the answer to the current question
+    const asked = confirmField ?? localizedSchema.fields.find(f => f.key === askedKey);
+    if (Object.keys(parsed.answers).length === 0 && asked) {
+      const value = coerceAnswer(asked, text);
+      if (value !== undefined) parsed.answers[asked.key] = value;
+    }
+
+    const filled = candidates.filter(f => f.key in parsed.answers);
+    const errors = validateAnswers(filled, { ...answers, ...parsed.answers }, locale);
+    const accepted = filled.filter(f => !errors[f.key]);
+    const nextAnswers = { ...answers, ...Object.fromEntries(accepted.map(f => [f.key, parsed.answers[f.key]])) };
+    const nextConfidence = { ...confidence };
+    for (const field of accepted) {
+      if (field.key in parsed.confidence) nextConfidence[field.key] = parsed.confidence[field.key];
+      else delete nextConfidence[field.key];
+    }
+
+    const replies: ChatTurn[] = [];
+    if (accepted.length > 0) {
+      const summary = accepted
+        .map(f => `${f.label}: ${formatChatAnswer(f, nextAnswers, localizedSchema.fields, t, locale)}`)
+        .join('; ');
+      replies.push(assistantTurn(t('chat.noted', { answers: summary })));
+    }
+    Object.values(errors).filter(Boolean).forEach(error => replies.push(assistantTurn(error)));
+    if (accepted.length === 0 && Object.keys(errors).length === 0) {
+      replies.push(assistantTurn(t('chat.notUnderstood')));
+    } else {
+      replies.push(...askNext(nextAnswers, nextConfidence, skipped));
+    }
+
+    setAnswers(nextAnswers);
+    setConfidence(nextConfidence);
+    setTurns(prev => {
+      // Record on the user's message what it filled, so the transcript can be replayed
+      const updated = [...prev];
+      const last = updated[updated.length - 1];
+      updated[updated.length - 1] = {
+        ...last,
+        fields: accepted.map(f => f.key),
+        answers: Object.fromEntries(accepted.map(f => [f.key, nextAnswers[f.key]])),
+        confidence: Object.fromEntries(accepted.filter(f => f.key in parsed.confidence).map(f => [f.key, parsed.confidence[f.key]])),
+      };
+      return [...updated, ...replies];
+    });
+    setThinking(false);
+  };
+
+  const onConfirm = (confirmed: boolean, text = t(confirmed ? 'form.yes' : 'form.no')) => {
+    if (!confirmField) return;
+
+    const key = confirmField.key;
+    const userTurn: ChatTurn = { role: 'user', text, at: new Date().toISOString() };
+    if (confirmed) {
+      const nextConfidence = { ...confidence, [key]: 1 };
+      setConfidence(nextConfidence);
+      setTurns(prev => [
+        ...prev,
+        { ...userTurn, fields: [key], answers: { [key]: answers[key] }, confidence: { [key]: 1 } },
+        ...askNext(answers, nextConfidence, skipped),
+      ]);
+      return;
+    }
+
+    // Wrong guess: drop it and ask the question directly
+    const { [key]: _, ...rest } = answers;
+    const { [key]: __, ...restConfidence } = confidence;
+    setAnswers(rest);
+    setConfidence(restConfidence);
+    setAskedKey(key);
+    setTurns(prev => [...prev, userTurn, assistantTurn(describeQuestion(confirmField, t, locale), [key])]);
+  };
+
+  const onSkip = () => {
+    if (!askedKey) return;
+    const nextSkipped = [...skipped, askedKey];
+    setSkipped(nextSkipped);
+    setTurns(prev => [
+      ...prev,
+      { role: 'user', text: t('chat.skip'), at: new Date().toISOString(), skipped: askedKey },
+      ...askNext(answers, confidence, nextSkipped),
+    ]);
+  };
+
+  const onCorrect = (key: string) => {
+    const field = localizedSchema?.fields.find(f => f.key === key);
+    if (!field) return;
+
+    const { [key]: _, ...rest } = answers;
+    const { [key]: __, ...restConfidence } = confidence;
+    setAnswers(rest);
+    setConfidence(restConfidence);
+    setSkipped(prev => prev.filter(k => k !== key));
+    setAskedKey(key);
+    setTurns(prev => [
+      ...prev,
+      assistantTurn(t('chat.correcting')),
+      assistantTurn(describeQuestion(field, t, locale), [key]),
+    ]);
+  };
+
+  const onCopyResumeLink = async () => {
+    if (!id || !draft) return;
+    try {
+      await navigator.clipboard.writeText(getResumeLink('chat', id, draft, locale));
+      toast.success(t('route.linkCopied'));
+    } catch (error) {
+      console.error('Error copying link:', error);
+    }
+  };
+
+  const onSubmit = async () => {
+    if (!id || !schema || !draft) return;
+
+    setSubmitting(true);
+    try {
+      const submission = getChatSubmission(schema, answers);
+
+      // Same path as the standard form, plus the NLU confidence of each answer
+      await sendSubmission({
+        responseId: draft.id,
+        token: draft.token,
+        formId: id,
+        locale,
+        items: buildResponseItems(schema, draft.id, submission, confidence),
+      });
+
+      forgetDraft('chat', id);
+      toast.success(t('route.submitted'));
+      setSubmittedAnswers(submission);
+    } catch (error) {
+      console.error('Error submitting chat response:', error);
+      toast.error(t('route.submitError'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto p-4">
+        <Card className="p-8 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+          <p className="mt-4">{t('route.loading')}</p>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!schema || !localizedSchema) {
+    return (
+      <div className="container mx-auto p-4">
+        <Card className="p-8 text-center">
+          <h1 className="text-2xl font-bold mb-4">{t('route.notFound')}</h1>
+          <p className="text-gray-600 mb-4">{t('route.notFoundDescription')}</p>
+          <Link to="/">
+            <Button>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              {t('route.backHome')}
+            </Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  const askedField = localizedSchema.fields.find(f => f.key === askedKey);
+  const answeredFields = getChatFields(localizedSchema, answers).filter(f => f.key in answers);
+  const formLink = `/form/${id}?lang=${locale}`;
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="max-w-5xl mx-auto">
+        <div className="mb-6">
+          <div className="flex items-center justify-between gap-2 mb-4">
+            <Link to="/">
+              <Button variant="outline" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                {t('route.back')}
+              </Button>
+            </Link>
+            <Link to={formLink}>
+              <Button variant="ghost" size="sm">{t('route.formMode')}</Button>
+            </Link>
+          </div>
+          <h1 className="text-3xl font-bold">
+            {locale === getSourceLocale(schema) ? formTitle : localizedSchema.title}
+          </h1>
+          {hasFormOnlyFields(schema) && (
+            <p className="text-sm text-amber-700 mt-2">
+              {t('chat.formOnlyNotice')}{' '}
+              <Link to={formLink} className="underline">{t('route.formMode')}</Link>
+            </p>
+          )}
+        </div>
+
+        {submittedAnswers ? (
+          <Card className="p-8 text-center space-y-2">
+            <h2 className="text-2xl font-bold">
+              {resolveTemplate(
+                localizedSchema.settings.completionMessage || t('route.completion'),
+                submittedAnswers,
+                localizedSchema.fields,
+                locale
+              )}
+            </h2>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card className="md:col-span-2 p-4 flex flex-col h-[70vh]">
+              <div ref={scrollRef} className="flex-1 overflow-y-auto space-y-3 pr-1" aria-live="polite">
+                <ChatTranscript turns={turns} />
+                {thinking && <p className="text-sm text-gray-500">{t('chat.thinking')}</p>}
+              </div>
+
+              <form
+                className="flex gap-2 pt-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  onSend();
+                }}
+              >
+                <Input
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  placeholder={t('chat.placeholder')}
+                  disabled={thinking}
+                  autoFocus
+                />
+                {confirmField ? (
+                  <>
+                    <Button type="button" variant="outline" onClick={() => onConfirm(true)} disabled={thinking}>
+                      {t('form.yes')}
+                    </Button>
+                    <Button type="button" variant="outline" onClick={() => onConfirm(false)} disabled={thinking}>
+                      {t('form.no')}
+                    </Button>
+                  </>
+                ) : askedField && !askedField.required && (
+                  <Button type="button" variant="outline" onClick={onSkip} disabled={thinking}>
+                    {t('chat.skip')}
+                  </Button>
+                )}
+                <Button type="submit" disabled={thinking || !message.trim()} aria-label={t('chat.send')}>
+                  <Send className="w-4 h-4" />
+                </Button>
+              </form>
+            </Card>
+
+            <Card className="p-4 space-y-3 h-fit">
+              <h2 className="font-semibold">{t('chat.answers')}</h2>
+              {answeredFields.length === 0 ? (
+                <p className="text-sm text-gray-500">{t('chat.noAnswers')}</p>
+              ) : (
+                <dl className="space-y-2">
+                  {answeredFields.map((field) => (
+                    <div key={field.key} className="flex items-start justify-between gap-2 text-sm">
+                      <div className="min-w-0">
+                        <dt className="font-medium">{field.label}</dt>
+                        <dd className={cn("break-words", isUncertain(confidence[field.key]) ? "text-amber-700" : "text-gray-600")}>
+                          {formatChatAnswer(field, answers, localizedSchema.fields, t, locale)}
+                        </dd>
+                      </div>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => onCorrect(field.key)}>
+                        {t('chat.correct')}
+                      </Button>
+                    </div>
+                  ))}
+                </dl>
+              )}
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={onCopyResumeLink}
+                disabled={!draft}
+              >
+                <Link2 className="w-4 h-4 mr-2" />
+                {t('route.resumeLink')}
+              </Button>
+              <Button
+                className="w-full"
+                onClick={onSubmit}
+                disabled={submitting || !draft || !!askedKey || !!confirmField || thinking}
+              >
+                {submitting ? t('form.sending') : t('chat.submit')}
+              </Button>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
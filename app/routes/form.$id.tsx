@@ -1,12 +1,43 @@
-import { useState, useEffect } from "react";
-import { useParams } from "react-router";
+import { useState, useEffect, useRef } from "react";
+import { useParams, useSearchParams } from "react-router";
 import { supabase } from "~/lib/supabaseClient";
 import { FormFactory, type FormSchema } from "~/components/form/FormFactory";
 import { Card } from "~/components/ui/card";
 import { Button } from "~/components/ui/button";
 import { toast } from "sonner";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, Link2, MessageCircle } from "lucide-react";
 import { Link } from "react-router";
+import { buildResponseItems } from "~/lib/responses";
+import {
+  createDraft,
+  forgetDraft,
+  getLinkedDraft,
+  getResumeLink,
+  getStoredDraft,
+  loadDraft,
+  newDraftKey,
+  saveResponseItems,
+  storeDraft,
+  type DraftKey,
+} from "~/lib/drafts";
+import {
+  cacheForm,
+  clearLocalAnswers,
+  getCachedForm,
+  getFailedSubmissions,
+  getLocalAnswers,
+  getQueuedSubmissions,
+  isNetworkError,
+  QUEUE_EVENT,
+  queueSubmission,
+  saveLocalAnswers,
+  sendSubmission,
+} from "~/lib/offline";
+import { resolveTemplate } from "~/lib/templates";
+import { sanitizeSchema } from "~/lib/sanitize";
+import { createTranslator, negotiateLocale, resolveLocale, LOCALE_NAMES, type Locale } from "~/lib/i18n";
+import { getAvailableLocales, getSourceLocale, localizeSchema } from "~/lib/translations";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
 
 export function meta() {
   return [
@@ -15,13 +46,42 @@ export function meta() {
   ];
 }
 
+const AUTOSAVE_DELAY = 1500;
+
 export default function FormResponse() {
   const { id } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [schema, setSchema] = useState<FormSchema | null>(null);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [formTitle, setFormTitle] = useState("");
-  const [responseId, setResponseId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<DraftKey | null>(null);
+  const [submittedAnswers, setSubmittedAnswers] = useState<Record<string, any> | null>(null);
+  // Answers of the resumed draft; null until the draft has been looked up
+  const [initialAnswers, setInitialAnswers] = useState<Record<string, any> | null>(null);
+  const [draftAnswers, setDraftAnswers] = useState<Record<string, any> | null>(null);
+  const [draftStatus, setDraftStatus] = useState<'idle' | 'saving' | 'saved' | 'local' | 'error'>('idle');
+  const autosaveTimerRef = useRef<NodeJS.Timeout>(undefined);
+  const autosaveRef = useRef<Promise<void>>(undefined);
+  // Draft started offline, whose responses row does not exist yet
+  const localDraftRef = useRef(false);
+  // Form loaded from the copy kept on the device
+  const [offline, setOffline] = useState(false);
+  const [queueState, setQueueState] = useState<'queued' | 'synced' | 'failed' | null>(null);
+  // ?lang= wins over the browser preference; until the schema loads any supported locale will do
+  const browserLocales = typeof navigator !== 'undefined' ? navigator.languages : [];
+  const availableLocales = schema ? getAvailableLocales(schema) : [];
+  const locale = schema
+    ? negotiateLocale(availableLocales, searchParams.get('lang'), ...browserLocales)
+    : resolveLocale(searchParams.get('lang'), ...browserLocales);
+  const t = createTranslator(locale);
+
+  const onLocaleChange = (value: Locale) => {
+    setSearchParams(prev => {
+      prev.set('lang', value);
+      return prev;
+    }, { replace: true });
+  };
 
   useEffect(() => {
     if (!id) return;
@@ -38,10 +98,22 @@ export default function FormResponse() {
         if (error) throw error;
 
         setFormTitle(data.title);
-        setSchema(data.schema_json);
+        // Repaired so forms saved before sanitization (or edited by hand) still render
+        setSchema(sanitizeSchema(data.schema_json).schema);
+        // Kept so the form can be opened again without a connection
+        cacheForm({ id, title: data.title, schema_json: data.schema_json }).catch((cacheError) => {
+          console.error('Error caching form:', cacheError);
+        });
       } catch (error) {
-        console.error('Error fetching form:', error);
-        toast.error("Formulário não encontrado");
+        const cached = isNetworkError(error) ? await getCachedForm(id).catch(() => undefined) : undefined;
+        if (cached) {
+          setFormTitle(cached.title);
+          setSchema(sanitizeSchema(cached.schema_json).schema);
+          setOffline(true);
+        } else {
+          console.error('Error fetching form:', error);
+          toast.error(t('route.notFound'));
+        }
       } finally {
         setLoading(false);
       }
@@ -53,73 +125,143 @@ export default function FormResponse() {
   useEffect(() => {
     if (!id) return;
 
-    // Create a draft response for tracking
-    const createDraftResponse = async () => {
+    // Resume the draft from a "continue later" link or from this browser, otherwise start a new one
+    const startResponse = async () => {
+      const local = await getLocalAnswers(id).catch(() => undefined);
+      const resumeKey = getLinkedDraft(searchParams) ?? getStoredDraft('form', id);
+      let draftKey: DraftKey | null = null;
+      let answers: Record<string, any> = {};
       try {
-        const { data: response, error } = await supabase
-          .from('responses')
-          .insert({
-            form_id: id,
-            status: 'draft'
-          })
-          .select()
-          .single();
-
-        if (error) throw error;
-        setResponseId(response.id);
+        const resumed = resumeKey ? await loadDraft(id, resumeKey) : null;
+        draftKey = resumed ?? await createDraft(id);
+        answers = resumed?.answers ?? {};
       } catch (error) {
         console.error('Error creating draft response:', error);
+        if (isNetworkError(error)) {
+          // Offline: keep answering the same draft, or start one that is created on the next save
+          draftKey = resumeKey ?? newDraftKey();
+          localDraftRef.current = true;
+        }
+      }
+
+      // This device saves every change, so its copy is the most recent one
+      if (draftKey && local?.responseId === draftKey.id) answers = local.answers;
+      if (draftKey) {
+        storeDraft('form', id, draftKey);
+        setDraft(draftKey);
       }
+      setInitialAnswers(answers);
     };
 
-    createDraftResponse();
+    startResponse();
   }, [id]);
 
+  // Answers are kept on the device right away and saved to the draft a moment after
+  // the respondent stops typing
+  useEffect(() => {
+    if (!id || !schema || !draft || !draftAnswers) return;
+
+    saveLocalAnswers(id, draft.id, draftAnswers).catch((error) => {
+      console.error('Error saving answers locally:', error);
+    });
+
+    autosaveTimerRef.current = setTimeout(() => {
+      if (!navigator.onLine) {
+        setDraftStatus('local');
+        return;
+      }
+
+      setDraftStatus('saving');
+      // Saves run one after another, so an older save can never land after a newer one
+      autosaveRef.current = (autosaveRef.current ?? Promise.resolve()).then(async () => {
+        setDraftStatus('saving');
+        try {
+          if (localDraftRef.current) {
+            await createDraft(id, draft);
+            localDraftRef.current = false;
+          }
+          await saveResponseItems(draft, buildResponseItems(schema, draft.id, draftAnswers));
+          setDraftStatus('saved');
+        } catch (error) {
+          console.error('Error autosaving draft:', error);
+          setDraftStatus(isNetworkError(error) ? 'local' : 'error');
+        }
+      });
+    }, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(autosaveTimerRef.current);
+  }, [draftAnswers, draft]);
+
+  // A queued submission is sent by SyncStatus; follow it to tell the respondent
+  useEffect(() => {
+    if (queueState !== 'queued' || !draft) return;
+
+    const checkQueue = async () => {
+      const queued = await getQueuedSubmissions().catch(() => []);
+      if (queued.some(submission => submission.responseId === draft.id)) return;
+      const failed = await getFailedSubmissions().catch(() => []);
+      setQueueState(failed.some(submission => submission.responseId === draft.id) ? 'failed' : 'synced');
+    };
+
+    window.addEventListener(QUEUE_EVENT, checkQueue);
+    return () => window.removeEventListener(QUEUE_EVENT, checkQueue);
+  }, [queueState, draft]);
+
+  const onCopyResumeLink = async () => {
+    if (!id || !draft) return;
+    try {
+      await navigator.clipboard.writeText(getResumeLink('form', id, draft, locale));
+      toast.success(t('route.linkCopied'));
+    } catch (error) {
+      console.error('Error copying link:', error);
+    }
+  };
+
   const handleSubmit = async (formData: Record<string, any>) => {
-    if (!id || !schema || !responseId) return;
+    if (!id || !schema || !draft) return;
+
+    // Items are re-validated so stored items reflect the real result
+    const submission = {
+      responseId: draft.id,
+      token: draft.token,
+      formId: id,
+      locale,
+      items: buildResponseItems(schema, draft.id, formData),
+    };
 
     setSubmitting(true);
     try {
-      // Update response to submitted
-      const { error: responseError } = await supabase
-        .from('responses')
-        .update({ status: 'submitted' })
-        .eq('id', responseId);
-
-      if (responseError) throw responseError;
-
-      // Save response items
-      const responseItems = Object.entries(formData).map(([key, value]) => ({
-        response_id: responseId,
-        field_key: key,
-        value_json: value,
-        valid: true
-      }));
-
-      const { error: itemsError } = await supabase
-        .from('response_items')
-        .insert(responseItems);
-
-      if (itemsError) throw itemsError;
-
-      toast.success("Resposta enviada com sucesso!");
-      
-      // Reset form
-      setSchema({ ...schema });
+      // A pending autosave must not overwrite the submitted items
+      clearTimeout(autosaveTimerRef.current);
+      await autosaveRef.current;
+
+      try {
+        await sendSubmission(submission);
+        toast.success(t('route.submitted'));
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        // No connection: keep it on the device; SyncStatus sends it when the connection returns
+        await queueSubmission(submission);
+        setQueueState('queued');
+      }
+
+      forgetDraft('form', id);
+      clearLocalAnswers(id).catch((error) => console.error('Error clearing local answers:', error));
+      setSubmittedAnswers(formData);
     } catch (error) {
       console.error('Error submitting form:', error);
-      toast.error("Erro ao enviar resposta");
+      toast.error(t('route.submitError'));
     } finally {
       setSubmitting(false);
     }
   };
 
-  if (loading) {
+  if (loading || !initialAnswers) {
     return (
       <div className="container mx-auto p-4">
         <Card className="p-8 text-center">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
-          <p className="mt-4">Carregando formulário...</p>
+          <p className="mt-4">{t('route.loading')}</p>
         </Card>
       </div>
     );
@@ -129,12 +271,12 @@ export default function FormResponse() {
     return (
       <div className="container mx-auto p-4">
         <Card className="p-8 text-center">
-          <h1 className="text-2xl font-bold mb-4">Formulário não encontrado</h1>
-          <p className="text-gray-600 mb-4">O formulário que você está procurando não existe ou não está disponível.</p>
+          <h1 className="text-2xl font-bold mb-4">{t('route.notFound')}</h1>
+          <p className="text-gray-600 mb-4">{t('route.notFoundDescription')}</p>
           <Link to="/">
             <Button>
               <ArrowLeft className="w-4 h-4 mr-2" />
-              Voltar ao início
+              {t('route.backHome')}
             </Button>
           </Link>
         </Card>
@@ -142,26 +284,91 @@ export default function FormResponse() {
     );
   }
 
+  const localizedSchema = localizeSchema(schema, locale);
+
   return (
     <div className="container mx-auto p-4">
       <div className="max-w-2xl mx-auto">
         <div className="mb-6">
-          <Link to="/">
-            <Button variant="outline" size="sm" className="mb-4">
-              <ArrowLeft className="w-4 h-4 mr-2" />
-              Voltar
-            </Button>
-          </Link>
-          <h1 className="text-3xl font-bold">{formTitle}</h1>
+          <div className="flex items-center justify-between gap-2 mb-4">
+            <Link to="/">
+              <Button variant="outline" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                {t('route.back')}
+              </Button>
+            </Link>
+            <Link to={`/chat/${id}?lang=${locale}`}>
+              <Button variant="ghost" size="sm">
+                <MessageCircle className="w-4 h-4 mr-2" />
+                {t('route.chatMode')}
+              </Button>
+            </Link>
+          </div>
+          <div className="flex items-start justify-between gap-4">
+            <h1 className="text-3xl font-bold">
+              {locale === getSourceLocale(schema) ? formTitle : localizedSchema.title}
+            </h1>
+            {availableLocales.length > 1 && (
+              <Select value={locale} onValueChange={(val) => onLocaleChange(val as Locale)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableLocales.map((l) => (
+                    <SelectItem key={l} value={l}>{LOCALE_NAMES[l]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          {offline && (
+            <p className="text-sm text-amber-700 mt-2">{t('route.offline')}</p>
+          )}
+          {!submittedAnswers && draft && (
+            <div className="flex items-center justify-between gap-2 mt-2">
+              <span className={draftStatus === 'error' ? "text-sm text-red-600" : "text-sm text-gray-500"} aria-live="polite">
+                {draftStatus === 'saving' && t('form.draftSaving')}
+                {draftStatus === 'saved' && t('form.draftSaved')}
+                {draftStatus === 'local' && t('form.draftLocal')}
+                {draftStatus === 'error' && t('form.draftError')}
+              </span>
+              <Button variant="ghost" size="sm" onClick={onCopyResumeLink}>
+                <Link2 className="w-4 h-4 mr-2" />
+                {t('route.resumeLink')}
+              </Button>
+            </div>
+          )}
         </div>
 
-        <FormFactory 
-          schema={schema} 
-          onSubmit={handleSubmit}
-          loading={submitting}
-          formId={id}
-          responseId={responseId}
-        />
+        {submittedAnswers ? (
+          <Card className="p-8 text-center space-y-2">
+            <h2 className="text-2xl font-bold">
+              {resolveTemplate(
+                localizedSchema.settings.completionMessage || t('route.completion'),
+                submittedAnswers,
+                localizedSchema.fields,
+                locale
+              )}
+            </h2>
+            {queueState && (
+              <p
+                className={{ synced: "text-sm text-green-700", queued: "text-sm text-amber-700", failed: "text-sm text-red-700" }[queueState]}
+                role="status"
+              >
+                {{ synced: t('route.synced'), queued: t('route.queued'), failed: t('route.syncFailed') }[queueState]}
+              </p>
+            )}
+          </Card>
+        ) : (
+          <FormFactory 
+            schema={localizedSchema} 
+            onSubmit={handleSubmit}
+            loading={submitting}
+            draft={draft ?? undefined}
+            initialData={initialAnswers}
+            onChange={setDraftAnswers}
+          />
+        )}
       </div>
     </div>
   );
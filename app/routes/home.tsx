@@ -5,13 +5,26 @@ import { Textarea } from "~/components/ui/textarea";
 import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { generateSchema } from "~/lib/llm";
 import { FormFactory, type FormSchema } from "~/components/form/FormFactory";
 import { supabase } from "~/lib/supabaseClient";
+import { buildResponseItems } from "~/lib/responses";
+import { createDraft } from "~/lib/drafts";
+import { sendSubmission } from "~/lib/offline";
+import { localizeSchema } from "~/lib/translations";
+import { DEFAULT_LOCALE, type Locale } from "~/lib/i18n";
+import { TranslationPanel } from "~/components/form/TranslationPanel";
+import { FormEditor } from "~/components/form/FormEditor";
+import { RefinePanel, type RefineStep } from "~/components/form/RefinePanel";
+import { SchemaIssues } from "~/components/form/SchemaIssues";
+import { sanitizeSchema, type SchemaReport } from "~/lib/sanitize";
+import { downloadJson, exportBundle, exportJsonSchema, importForm } from "~/lib/interchange";
+import { TemplateGallery } from "~/components/form/TemplateGallery";
+import type { FormTemplate } from "~/lib/gallery";
 import { toast } from "sonner";
 import { Link } from "react-router";
-import { Eye, Trash2 } from "lucide-react";
+import { Copy, Download, Eye, LayoutTemplate, Pencil, Trash2, Upload } from "lucide-react";
 
 export function meta({}: Route.MetaArgs) {
   return [
@@ -39,10 +52,27 @@ export default function Home() {
   const [myForms, setMyForms] = useState<PublicForm[]>([]);
   const [loadingMyForms, setLoadingMyForms] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [loadingEditId, setLoadingEditId] = useState<string | null>(null);
+  const [refineHistory, setRefineHistory] = useState<RefineStep[]>([]);
+  // What sanitization fixed when the schema was generated or loaded
+  const [repairs, setRepairs] = useState<string[]>([]);
+  // What an imported document contained that could not be mapped onto fields
+  const [unmapped, setUnmapped] = useState<string[]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [myTemplates, setMyTemplates] = useState<FormTemplate[]>([]);
+  const [loadingTemplates, setLoadingTemplates] = useState(false);
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [deletingTemplateId, setDeletingTemplateId] = useState<string | null>(null);
+  const [duplicatingId, setDuplicatingId] = useState<string | null>(null);
+  const report = useMemo(() => (schema ? sanitizeSchema(schema) : null), [schema]);
+  // Pending repairs are shown as warnings too, since saving applies them
+  const issues = useMemo(() => (report ? [...report.repairs, ...report.warnings] : []), [report]);
+  const [previewLocale, setPreviewLocale] = useState<Locale>(DEFAULT_LOCALE);
 
   useEffect(() => {
     fetchPublicForms();
     fetchMyForms();
+    fetchMyTemplates();
   }, []);
 
   const fetchPublicForms = async () => {
@@ -91,12 +121,50 @@ export default function Home() {
     }
   };
 
+  const fetchMyTemplates = async () => {
+    setLoadingTemplates(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('form_templates')
+        .select('id, name, description, schema_json')
+        .eq('owner_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setMyTemplates((data || []).map((row: { id: string; name: string; description: string | null; schema_json: FormSchema }) => ({
+        id: row.id,
+        name: row.name,
+        description: row.description ?? '',
+        schema: row.schema_json,
+      })));
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+      toast.error("Erro ao carregar seus modelos");
+    } finally {
+      setLoadingTemplates(false);
+    }
+  };
+
+  // Loads a sanitized schema into the editor; `id` is set when it belongs to a saved form
+  const openSchema = (report: SchemaReport, title: string, id: string | null, unmappedItems: string[] = []) => {
+    setSchema(report.schema);
+    setRepairs(report.repairs);
+    setUnmapped(unmappedItems);
+    setFormTitle(title);
+    setFormId(id);
+    setRefineHistory([]);
+    setPreviewLocale(report.schema.settings.locale ?? DEFAULT_LOCALE);
+  };
+
   const onGenerate = async () => {
     setLoading(true);
     try {
       const res = await generateSchema(desc);
-      setSchema(res.schema);
-      setFormTitle(res.schema.title);
+      const generated = sanitizeSchema(res.schema);
+      openSchema(generated, generated.schema.title, null);
     } catch (error) {
       toast.error("Erro ao gerar formulário");
       console.error(error);
@@ -105,19 +173,224 @@ export default function Home() {
     }
   };
 
-  const onSaveForm = async () => {
+  const onEditForm = async (id: string) => {
+    setLoadingEditId(id);
+    try {
+      const { data, error } = await supabase
+        .from('forms')
+        .select('id, title, schema_json')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      openSchema(sanitizeSchema(data.schema_json), data.title, data.id);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    } catch (error) {
+      console.error('Error loading form:', error);
+      toast.error("Erro ao carregar formulário");
+    } finally {
+      setLoadingEditId(null);
+    }
+  };
+
+  const onUseTemplate = (template: FormTemplate) => {
+    const report = sanitizeSchema(template.schema);
+    openSchema(report, report.schema.title, null);
+    toast.success(`Modelo "${template.name}" carregado no editor`);
+  };
+
+  const onSaveAsTemplate = async () => {
+    if (!report) return;
+
+    const name = window.prompt("Nome do modelo:", formTitle || report.schema.title);
+    if (!name?.trim()) return;
+
+    setSavingTemplate(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        toast.error("Você precisa estar logado.");
+        return;
+      }
+
+      const { error } = await supabase
+        .from('form_templates')
+        .insert({
+          name: name.trim(),
+          description: report.schema.description,
+          schema_json: report.schema,
+          owner_id: user.id
+        });
+
+      if (error) throw error;
+
+      toast.success("Modelo salvo!");
+      fetchMyTemplates();
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast.error("Erro ao salvar modelo");
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  const onDeleteTemplate = async (id: string) => {
+    const confirmDelete = window.confirm("Tem certeza que deseja apagar este modelo?");
+    if (!confirmDelete) return;
+
+    setDeletingTemplateId(id);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        toast.error("Você precisa estar logado.");
+        return;
+      }
+
+      const { error } = await supabase
+        .from('form_templates')
+        .delete()
+        .eq('id', id)
+        .eq('owner_id', user.id);
+
+      if (error) throw error;
+
+      toast.success("Modelo apagado.");
+      fetchMyTemplates();
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      toast.error("Erro ao apagar modelo");
+    } finally {
+      setDeletingTemplateId(null);
+    }
+  };
+
+  // Copies the form definition into a new row owned by the current user; responses stay behind
+  const onDuplicateForm = async (id: string) => {
+    setDuplicatingId(id);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        toast.error("Você precisa estar logado.");
+        return;
+      }
+
+      const { data: original, error: fetchError } = await supabase
+        .from('forms')
+        .select('title, description, schema_json, is_public')
+        .eq('id', id)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      const { error } = await supabase
+        .from('forms')
+        .insert({
+          title: `${original.title} (cópia)`,
+          description: original.description,
+          schema_json: original.schema_json,
+          owner_id: user.id,
+          is_public: original.is_public
+        });
+
+      if (error) throw error;
+
+      toast.success("Formulário duplicado!");
+      fetchMyForms();
+      fetchPublicForms();
+    } catch (error) {
+      console.error('Error duplicating form:', error);
+      toast.error("Erro ao duplicar formulário");
+    } finally {
+      setDuplicatingId(null);
+    }
+  };
+
+  const onImportFile = async (file: File) => {
+    try {
+      const imported = importForm(JSON.parse(await file.text()));
+      const report = sanitizeSchema(imported.schema);
+      openSchema(report, report.schema.title, null, imported.unmapped);
+      toast.success(`Formulário importado com ${report.schema.fields.length} campo(s)`);
+    } catch (error) {
+      console.error('Error importing form:', error);
+      toast.error("Erro ao importar formulário", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const exportFileName = (suffix: string) =>
+    `${(formTitle || schema?.title || 'formulario').replace(/[\\/:*?"<>|]+/g, '_')}.${suffix}.json`;
+
+  const onRefineApply = (refined: FormSchema, instruction: string) => {
     if (!schema) return;
+    setRefineHistory(prev => [...prev, { instruction, previous: schema }]);
+    setSchema(refined);
+    setFormTitle(refined.title);
+  };
+
+  const onRefineUndo = () => {
+    const last = refineHistory[refineHistory.length - 1];
+    if (!last) return;
+    setRefineHistory(prev => prev.slice(0, -1));
+    setSchema(last.previous);
+    setFormTitle(last.previous.title);
+  };
+
+  const onTitleChange = (title: string) => {
+    setFormTitle(title);
+    setSchema(prev => prev && { ...prev, title });
+  };
+
+  const onSaveForm = async () => {
+    if (!schema || !report) return;
+
+    if (issues.length > 0) {
+      const confirmSave = window.confirm(`O formulário tem ${issues.length} aviso(s). Deseja salvar mesmo assim?`);
+      if (!confirmSave) return;
+    }
+    // Anything the editor left broken is repaired before it reaches the database
+    const toSave = report.schema;
+    if (report.repairs.length > 0) {
+      setSchema(toSave);
+      setRepairs(report.repairs);
+    }
     
     setSaving(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
+
+      // Forms loaded from "Meus Formulários" (or already saved) are updated in place
+      if (formId) {
+        if (!user) {
+          toast.error("Você precisa estar logado.");
+          return;
+        }
+
+        const { error } = await supabase
+          .from('forms')
+          .update({
+            title: formTitle || toSave.title,
+            description: toSave.description,
+            schema_json: toSave
+          })
+          .eq('id', formId)
+          .eq('owner_id', user.id);
+
+        if (error) throw error;
+
+        toast.success("Alterações salvas!");
+        fetchMyForms();
+        return;
+      }
       
       const { data, error } = await supabase
         .from('forms')
         .insert({
-          title: formTitle || schema.title,
-          description: schema.description,
-          schema_json: schema,
+          title: formTitle || toSave.title,
+          description: toSave.description,
+          schema_json: toSave,
           owner_id: user?.id,
           is_public: true
         })
@@ -138,33 +411,19 @@ export default function Home() {
   };
 
   const onFormSubmit = async (data: Record<string, any>) => {
-    if (!formId) return;
+    if (!formId || !schema) return;
     
     try {
-      const { error } = await supabase
-        .from('responses')
-        .insert({
-          form_id: formId,
-          status: 'submitted'
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      // Save response items
-      const responseItems = Object.entries(data).map(([key, value]) => ({
-        response_id: formId,
-        field_key: key,
-        value_json: value,
-        valid: true
-      }));
-
-      const { error: itemsError } = await supabase
-        .from('response_items')
-        .insert(responseItems);
-
-      if (itemsError) throw itemsError;
+      // Same path as respondents: items are stored before the response counts as submitted,
+      // re-validated so stored items reflect the real result
+      const draft = await createDraft(formId);
+      await sendSubmission({
+        responseId: draft.id,
+        token: draft.token,
+        formId,
+        locale: previewLocale,
+        items: buildResponseItems(schema, draft.id, data),
+      });
 
       toast.success("Resposta enviada com sucesso!");
     } catch (error) {
@@ -213,7 +472,7 @@ export default function Home() {
           <TabsTrigger value="respond">Responder</TabsTrigger>
         </TabsList>
         <TabsContent value="create">
-          <div className="max-w-4xl mx-auto space-y-6">
+          <div className="max-w-6xl mx-auto space-y-6">
             {/* Create New Form */}
             <Card className="p-6 space-y-4">
               <h2 className="text-xl font-semibold">Criar Novo Formulário</h2>
@@ -231,18 +490,118 @@ export default function Home() {
                 <Button onClick={onGenerate} disabled={loading || !desc}>
                   {loading ? "Gerando..." : "Gerar formulário"}
                 </Button>
+                <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+                  <Upload className="w-4 h-4 mr-1" />
+                  Importar
+                </Button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,application/json,application/schema+json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onImportFile(file);
+                    e.target.value = '';
+                  }}
+                />
                 {schema && (
                   <Button 
                     variant="secondary" 
                     onClick={onSaveForm}
                     disabled={saving}
                   >
-                    {saving ? "Salvando..." : "Salvar formulário"}
+                    {saving ? "Salvando..." : formId ? "Salvar alterações" : "Salvar formulário"}
                   </Button>
                 )}
               </div>
             </Card>
 
+            {schema && (
+              <div className="grid gap-6 lg:grid-cols-2 items-start">
+                <div className="space-y-4">
+                  <Card className="p-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="title">Título do formulário</Label>
+                      <Input
+                        id="title"
+                        value={formTitle}
+                        onChange={(e) => onTitleChange(e.target.value)}
+                        placeholder="Título do formulário"
+                      />
+                    </div>
+                  </Card>
+
+                  {report && (
+                    <SchemaIssues
+                      unmapped={unmapped}
+                      repairs={repairs}
+                      warnings={issues}
+                    />
+                  )}
+
+                  <RefinePanel
+                    schema={schema}
+                    history={refineHistory}
+                    onApply={onRefineApply}
+                    onUndo={onRefineUndo}
+                  />
+
+                  <FormEditor schema={schema} onChange={setSchema} />
+
+                  <TranslationPanel
+                    schema={schema}
+                    onChange={setSchema}
+                    previewLocale={previewLocale}
+                    onPreviewLocaleChange={setPreviewLocale}
+                  />
+
+                  <Card className="p-4 space-y-2">
+                    <h3 className="text-lg font-semibold">Reutilizar</h3>
+                    <div className="flex flex-wrap gap-2">
+                      <Button variant="outline" size="sm" onClick={onSaveAsTemplate} disabled={savingTemplate}>
+                        <LayoutTemplate className="w-4 h-4 mr-1" />
+                        {savingTemplate ? "Salvando..." : "Salvar como modelo"}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => downloadJson(exportBundle(schema), exportFileName('formcraft'))}>
+                        <Download className="w-4 h-4 mr-1" />
+                        Pacote FormCraft
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => downloadJson(exportJsonSchema(schema), exportFileName('schema'))}>
+                        <Download className="w-4 h-4 mr-1" />
+                        JSON Schema 2020-12
+                      </Button>
+                    </div>
+                  </Card>
+
+                  <Card className="p-4">
+                    <h3 className="text-lg font-semibold mb-2">Schema JSON:</h3>
+                    <pre className="text-xs bg-gray-950 text-gray-100 p-3 rounded-md overflow-x-auto">
+                      {JSON.stringify(schema, null, 2)}
+                    </pre>
+                  </Card>
+                </div>
+
+                <div className="space-y-4 lg:sticky lg:top-4">
+                  <h3 className="text-lg font-semibold">Preview do formulário:</h3>
+                  <FormFactory 
+                    key={`${formId ?? 'new'}-${previewLocale}`}
+                    schema={localizeSchema(schema, previewLocale)} 
+                    onSubmit={onFormSubmit}
+                    loading={saving}
+                  />
+                </div>
+              </div>
+            )}
+
+            <TemplateGallery
+              templates={myTemplates}
+              loading={loadingTemplates}
+              onUse={onUseTemplate}
+              onDelete={onDeleteTemplate}
+              deletingId={deletingTemplateId}
+            />
+
             {/* My Forms */}
             <Card className="p-6">
               <h2 className="text-xl font-semibold mb-4">Meus Formulários</h2>
@@ -267,7 +626,7 @@ export default function Home() {
                         <span className="text-xs text-gray-500">
                           {new Date(form.created_at).toLocaleDateString('pt-BR')}
                         </span>
-                        <div className="flex gap-2">
+                        <div className="flex flex-wrap justify-end gap-2">
                           <Link to={`/form/${form.id}`}>
                             <Button size="sm" variant="outline">
                               <Eye className="w-4 h-4 mr-1" />
@@ -279,6 +638,24 @@ export default function Home() {
                               Respostas
                             </Button>
                           </Link>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => onEditForm(form.id)}
+                            disabled={loadingEditId === form.id}
+                          >
+                            <Pencil className="w-4 h-4 mr-1" />
+                            Editar
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => onDuplicateForm(form.id)}
+                            disabled={duplicatingId === form.id}
+                          >
+                            <Copy className="w-4 h-4 mr-1" />
+                            {duplicatingId === form.id ? 'Duplicando...' : 'Duplicar'}
+                          </Button>
                           <Button 
                             size="sm" 
                             variant="destructive" 
@@ -296,37 +673,6 @@ export default function Home() {
               )}
             </Card>
 
-            {schema && (
-              <div className="space-y-4">
-                <Card className="p-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="title">Título do formulário</Label>
-                    <Input
-                      id="title"
-                      value={formTitle}
-                      onChange={(e) => setFormTitle(e.target.value)}
-                      placeholder="Título do formulário"
-                    />
-                  </div>
-                </Card>
-
-                <div className="space-y-4">
-                  <h3 className="text-lg font-semibold">Preview do formulário:</h3>
-                  <FormFactory 
-                    schema={schema} 
-                    onSubmit={onFormSubmit}
-                    loading={saving}
-                  />
-                </div>
-
-                <Card className="p-4">
-                  <h3 className="text-lg font-semibold mb-2">Schema JSON:</h3>
-                  <pre className="text-xs bg-gray-950 text-gray-100 p-3 rounded-md overflow-x-auto">
-                    {JSON.stringify(schema, null, 2)}
-                  </pre>
-                </Card>
-              </div>
-            )}
           </div>
         </TabsContent>
         <TabsContent value="respond">
@@ -354,9 +700,14 @@ export default function Home() {
                         <span className="text-xs text-gray-500">
                           {new Date(form.created_at).toLocaleDateString('pt-BR')}
                         </span>
-                        <Link to={`/form/${form.id}`}>
-                          <Button size="sm">Responder</Button>
-                        </Link>
+                        <div className="flex gap-2">
+                          <Link to={`/chat/${form.id}`}>
+                            <Button size="sm" variant="outline">Chat</Button>
+                          </Link>
+                          <Link to={`/form/${form.id}`}>
+                            <Button size="sm">Responder</Button>
+                          </Link>
+                        </div>
                       </div>
                     </Card>
                   ))}
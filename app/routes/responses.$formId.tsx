@@ -4,8 +4,40 @@ import { supabase } from "~/lib/supabaseClient";
 import { Card } from "~/components/ui/card";
 import { Button } from "~/components/ui/button";
 import { Badge } from "~/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
 import { ArrowLeft, Download, Eye, Users, Clock, CheckCircle, XCircle } from "lucide-react";
 import { toast } from "sonner";
+import { getSignedFileUrls, type FileReference } from "~/lib/storage";
+import { getScaleRange } from "~/lib/scales";
+import { summarizeField, summarizeVolume } from "~/lib/summaries";
+import { formatDate, formatDateTime, formatNumber, isLocale, LOCALE_NAMES, resolveLocale } from "~/lib/i18n";
+import { cn } from "~/lib/utils";
+import { isUncertain, parseTranscript } from "~/lib/chat";
+import { reviseResponseItems } from "~/lib/responses";
+import { ChatTranscript } from "~/components/form/ChatTranscript";
+import { ReviewQueue, type ReviewItem } from "~/components/form/ReviewQueue";
+import { DropOffFunnel } from "~/components/form/DropOffFunnel";
+import { FieldSummaryCard } from "~/components/form/FieldSummaryCard";
+import { VolumeChart } from "~/components/form/VolumeChart";
+import type { FormField } from "~/components/form/FormFactory";
+import { summarizeDropOff } from "~/lib/activity";
+import {
+  fetchAllResponses,
+  fetchFormSummary,
+  fetchResponseDetails,
+  fetchResponsePage,
+  fetchResponseStats,
+  fetchUncertainItems,
+  saveRevisedItems,
+  type ExportedResponse,
+  type FormSummaryData,
+  type ItemCursor,
+  type ResponseCursor,
+  type ResponseDetails,
+  type ResponseItem,
+  type ResponseRow,
+  type UncertainItem,
+} from "~/lib/responseQueries";
 
 export function meta() {
   return [
@@ -14,24 +46,6 @@ export function meta() {
   ];
 }
 
-interface ResponseItem {
-  id: string;
-  field_key: string;
-  value_json: any;
-  valid: boolean;
-  confidence: number | null;
-  created_at: string;
-}
-
-interface Response {
-  id: string;
-  status: 'draft' | 'submitted';
-  created_at: string;
-  updated_at: string;
-  abandoned_at: string | null;
-  response_items: ResponseItem[];
-}
-
 interface FormData {
   id: string;
   title: string;
@@ -40,11 +54,29 @@ interface FormData {
   created_at: string;
 }
 
+// A quoted CSV cell; quotes inside the value are doubled
+const csvCell = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
 export default function FormResponses() {
   const { formId } = useParams();
   const [form, setForm] = useState<FormData | null>(null);
-  const [responses, setResponses] = useState<Response[]>([]);
+  const [responses, setResponses] = useState<ResponseRow[]>([]);
+  const [nextCursor, setNextCursor] = useState<ResponseCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Items and transcript of each response opened so far
+  const [details, setDetails] = useState<Record<string, ResponseDetails>>({});
+  const [openIds, setOpenIds] = useState<string[]>([]);
+  const [summary, setSummary] = useState<FormSummaryData | null>(null);
+  const [uncertainItems, setUncertainItems] = useState<UncertainItem[]>([]);
+  const [uncertainTotal, setUncertainTotal] = useState(0);
+  const [uncertainCursor, setUncertainCursor] = useState<ItemCursor | null>(null);
   const [loading, setLoading] = useState(true);
+  const [fileUrls, setFileUrls] = useState<Record<string, string>>({});
+  const [savingItemId, setSavingItemId] = useState<string | null>(null);
+  // Responses loaded so far while exporting, null when not exporting
+  const [exported, setExported] = useState<number | null>(null);
+  // Dates and numbers follow the form's locale
+  const locale = resolveLocale(form?.schema_json?.settings?.locale);
   const [stats, setStats] = useState({
     total: 0,
     submitted: 0,
@@ -67,81 +99,186 @@ export default function FormResponses() {
         if (formError) throw formError;
         setForm(formData);
 
-        // Fetch responses with items
-        const { data: responsesData, error: responsesError } = await supabase
-          .from('responses')
-          .select(`
-            id,
-            status,
-            created_at,
-            updated_at,
-            abandoned_at,
-            response_items (
-              id,
-              field_key,
-              value_json,
-              valid,
-              confidence,
-              created_at
-            )
-          `)
-          .eq('form_id', formId)
-          .order('created_at', { ascending: false });
-
-        if (responsesError) throw responsesError;
-        setResponses(responsesData || []);
-
-        // Calculate stats
-        const total = responsesData?.length || 0;
-        const submitted = responsesData?.filter(r => r.status === 'submitted').length || 0;
-        const abandoned = responsesData?.filter(r => r.abandoned_at).length || 0;
-        const completionRate = total > 0 ? Math.round((submitted / total) * 100) : 0;
-
-        setStats({ total, submitted, abandoned, completionRate });
+        // Totals come from the database; only the first page of responses is loaded
+        const [counts, page, uncertain] = await Promise.all([
+          fetchResponseStats(formId),
+          fetchResponsePage(formId),
+          fetchUncertainItems(formId),
+        ]);
+
+        setStats({
+          ...counts,
+          completionRate: counts.total > 0 ? Math.round((counts.submitted / counts.total) * 100) : 0
+        });
+        setResponses(page.rows);
+        setNextCursor(page.nextCursor);
+        setUncertainItems(uncertain.items);
+        setUncertainTotal(uncertain.remaining);
+        setUncertainCursor(uncertain.nextCursor);
       } catch (error) {
         console.error('Error fetching data:', error);
         toast.error("Erro ao carregar dados");
+        return;
       } finally {
         setLoading(false);
       }
+
+      try {
+        setSummary(await fetchFormSummary(formId));
+      } catch (error) {
+        console.error('Error fetching summary:', error);
+        toast.error("Erro ao carregar o resumo");
+      }
     };
 
     fetchData();
   }, [formId]);
 
-  const exportToCSV = () => {
-    if (!form || !responses.length) return;
+  const loadMore = async () => {
+    if (!formId || !nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchResponsePage(formId, nextCursor);
+      setResponses(prev => [...prev, ...page.rows]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error fetching responses:', error);
+      toast.error("Erro ao carregar mais respostas");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const fileKeys = new Set<string>(
+    (form?.schema_json?.fields ?? []).filter((f: any) => f.type === 'file').map((f: any) => f.key)
+  );
+
+  const getFilePaths = (items: ResponseItem[]) =>
+    items
+      .filter(item => fileKeys.has(item.field_key) && Array.isArray(item.value_json))
+      .flatMap(item => (item.value_json as FileReference[]).map(f => f.path));
+
+  // Details are loaded the first time a response is opened
+  const toggleDetails = async (responseId: string) => {
+    if (openIds.includes(responseId)) {
+      setOpenIds(prev => prev.filter(id => id !== responseId));
+      return;
+    }
+    setOpenIds(prev => [...prev, responseId]);
+    if (details[responseId]) return;
+
+    try {
+      const loaded = await fetchResponseDetails(responseId);
+      setDetails(prev => ({ ...prev, [responseId]: loaded }));
+
+      // Sign download links for uploaded files
+      const filePaths = getFilePaths(loaded.items);
+      if (filePaths.length > 0) {
+        try {
+          const urls = await getSignedFileUrls(filePaths, 24 * 60 * 60);
+          setFileUrls(prev => ({ ...prev, ...urls }));
+        } catch (error) {
+          console.error('Error signing file URLs:', error);
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching response details:', error);
+      toast.error("Erro ao carregar a resposta");
+      setOpenIds(prev => prev.filter(id => id !== responseId));
+    }
+  };
+
+  const matrixCellLabel = (field: any, answer: string | string[] | undefined) => {
+    const columnLabel = (value: string) =>
+      field.matrix?.columns.find((c: any) => c.value === value)?.label ?? value;
+    if (answer === undefined) return '';
+    return Array.isArray(answer) ? answer.map(columnLabel).join('; ') : columnLabel(answer);
+  };
 
-    const headers = ['ID', 'Status', 'Data de Criação', 'Data de Atualização', 'Abandonado'];
+  // Flattens group instances into "Item 1: Nome: Ana; Idade: 3 | Item 2: ..." for the CSV export
+  const groupToText = (field: any, instances: any[]) =>
+    instances.map((instance, index) => {
+      const parts = (field.fields ?? [])
+        .filter((child: any) => instance?.[child.key] !== undefined && instance[child.key] !== '')
+        .map((child: any) => {
+          const childValue = instance[child.key];
+          return `${child.label}: ${Array.isArray(childValue) ? childValue.join(', ') : typeof childValue === 'object' ? JSON.stringify(childValue) : childValue}`;
+        });
+      return `${field.repeat?.itemLabel ?? 'Item'} ${index + 1}: ${parts.join('; ')}`;
+    }).join(' | ');
+
+  // Exports every response, not only the pages loaded, fetching them in batches
+  const exportToCSV = async () => {
+    if (!form || !formId || !stats.total) return;
+
+    setExported(0);
+    let allResponses: ExportedResponse[];
+    let exportUrls: Record<string, string> = {};
+    try {
+      allResponses = await fetchAllResponses(formId, setExported);
+      const filePaths = allResponses.flatMap(r => getFilePaths(r.response_items));
+      try {
+        exportUrls = await getSignedFileUrls(filePaths, 24 * 60 * 60);
+      } catch (error) {
+        console.error('Error signing file URLs:', error);
+      }
+    } catch (error) {
+      console.error('Error exporting responses:', error);
+      toast.error("Erro ao exportar respostas");
+      return;
+    } finally {
+      setExported(null);
+    }
+
+    const headers = ['ID', 'Status', 'Data de Criação', 'Data de Atualização', 'Abandonado', 'Idioma'];
     
     // Add field headers from schema
     if (form.schema_json?.fields) {
       form.schema_json.fields.forEach((field: any) => {
-        headers.push(field.label || field.key);
+        if (field.type === 'matrix') {
+          // One column per matrix row
+          field.matrix?.rows.forEach((row: any) => headers.push(`${field.label || field.key} - ${row.label}`));
+        } else {
+          headers.push(field.label || field.key);
+        }
       });
     }
 
     const csvContent = [
-      headers.join(','),
-      ...responses.map(response => {
+      headers.map(csvCell).join(','),
+      ...allResponses.map(response => {
         const row = [
           response.id,
           response.status,
-          new Date(response.created_at).toLocaleString('pt-BR'),
-          new Date(response.updated_at).toLocaleString('pt-BR'),
-          response.abandoned_at ? 'Sim' : 'Não'
+          formatDateTime(response.created_at, locale),
+          formatDateTime(response.updated_at, locale),
+          response.abandoned_at ? 'Sim' : 'Não',
+          response.locale ?? ''
         ];
 
         // Add field values
         if (form.schema_json?.fields) {
           form.schema_json.fields.forEach((field: any) => {
             const item = response.response_items.find(ri => ri.field_key === field.key);
-            const value = item ? JSON.stringify(item.value_json) : '';
-            row.push(`"${value}"`);
+            if (field.type === 'matrix') {
+              field.matrix?.rows.forEach((matrixRow: any) => {
+                row.push(matrixCellLabel(field, item?.value_json?.[matrixRow.value]));
+              });
+              return;
+            }
+
+            const value = !item
+              ? ''
+              : field.type === 'file' && Array.isArray(item.value_json)
+                ? (item.value_json as FileReference[]).map(f => exportUrls[f.path] || f.path).join(' ')
+                : field.type === 'group' && Array.isArray(item.value_json)
+                  ? groupToText(field, item.value_json)
+                  : JSON.stringify(item.value_json);
+            row.push(value);
           });
         }
 
-        return row.join(',');
+        return row.map(csvCell).join(',');
       })
     ].join('\n');
 
@@ -156,6 +293,169 @@ export default function FormResponses() {
     document.body.removeChild(link);
   };
 
+  const renderValue = (field: any, value: any): React.ReactNode => {
+    if (field.type === 'file' && Array.isArray(value)) {
+      return (
+        <span className="flex flex-col items-end gap-1">
+          {(value as FileReference[]).map((file) => (
+            <a
+              key={file.path}
+              href={fileUrls[file.path]}
+              target="_blank"
+              rel="noreferrer"
+              className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+            >
+              <Download className="w-3 h-3" />
+              {file.name}
+            </a>
+          ))}
+        </span>
+      );
+    }
+
+    if (field.type === 'group' && Array.isArray(value)) {
+      return (
+        <span className="flex flex-col items-end gap-2">
+          {value.map((instance: any, index: number) => (
+            <span key={index} className="flex flex-col items-end">
+              <span className="text-xs font-medium text-gray-500">
+                {field.repeat?.itemLabel ?? 'Item'} {index + 1}
+              </span>
+              {(field.fields ?? []).map((child: any) => {
+                const childValue = instance?.[child.key];
+                if (childValue === undefined || childValue === null || childValue === '') return null;
+                return (
+                  <span key={child.key}>
+                    <span className="text-gray-600">{child.label}:</span>{' '}
+                    {renderValue(child, childValue)}
+                  </span>
+                );
+              })}
+            </span>
+          ))}
+        </span>
+      );
+    }
+
+    if (field.type === 'matrix' && typeof value === 'object') {
+      return (
+        <span className="flex flex-col items-end gap-1">
+          {field.matrix?.rows.map((matrixRow: any) => (
+            <span key={matrixRow.value}>
+              <span className="text-gray-600">{matrixRow.label}:</span>{' '}
+              {matrixCellLabel(field, value[matrixRow.value]) || '–'}
+            </span>
+          ))}
+        </span>
+      );
+    }
+
+    if (typeof value === 'number') {
+      return field.type === 'rating'
+        ? `${'★'.repeat(value)} (${value}/${getScaleRange(field, locale).max})`
+        : formatNumber(value, locale);
+    }
+
+    if (field.type === 'date' && typeof value === 'string') {
+      return formatDate(value, locale);
+    }
+
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  };
+
+  const updateItem = async (itemId: string, changes: Partial<ResponseItem>) => {
+    setSavingItemId(itemId);
+    try {
+      const { error } = await supabase
+        .from('response_items')
+        .update(changes)
+        .eq('id', itemId);
+
+      if (error) throw error;
+
+      // Reviewed items leave the queue
+      setUncertainItems(prev => prev.filter(item => item.id !== itemId));
+      setUncertainTotal(prev => Math.max(0, prev - 1));
+      setDetails(prev => Object.fromEntries(Object.entries(prev).map(([responseId, loaded]) => [
+        responseId,
+        { ...loaded, items: loaded.items.map(item => item.id === itemId ? { ...item, ...changes } : item) },
+      ])));
+      toast.success("Resposta revisada");
+    } catch (error) {
+      console.error('Error reviewing item:', error);
+      toast.error("Erro ao salvar revisão");
+    } finally {
+      setSavingItemId(null);
+    }
+  };
+
+  // The extracted value and its confidence are kept; the review mark takes it out of the queue
+  const onAcceptItem = (item: ReviewItem) => updateItem(item.itemId, { review: 'accepted' });
+
+  // A new value can change calculated fields and what is visible, so the whole response is rebuilt
+  const onFixItem = async (item: ReviewItem, value: unknown) => {
+    if (!form) return;
+
+    setSavingItemId(item.itemId);
+    try {
+      const current = details[item.responseId] ?? await fetchResponseDetails(item.responseId);
+      const revised = reviseResponseItems(form.schema_json, item.responseId, current.items, item.field.key, value)
+        .map(row => ({
+          ...row,
+          review: row.field_key === item.field.key
+            ? 'fixed' as const
+            : current.items.find(i => i.field_key === row.field_key)?.review ?? null,
+        }));
+      const items = await saveRevisedItems(item.responseId, revised);
+
+      // Uncertain items of fields the fix hid were deleted along with the fixed one
+      const stillUncertain = new Set(items.filter(i => isUncertain(i.confidence) && !i.review).map(i => i.id));
+      const reviewed = uncertainItems.filter(i => i.response_id === item.responseId && !stillUncertain.has(i.id));
+      setUncertainItems(prev => prev.filter(i => !reviewed.includes(i)));
+      setUncertainTotal(prev => Math.max(0, prev - reviewed.length));
+      setDetails(prev => ({ ...prev, [item.responseId]: { ...current, items } }));
+      toast.success("Resposta revisada");
+    } catch (error) {
+      console.error('Error fixing item:', error);
+      toast.error("Erro ao salvar revisão");
+    } finally {
+      setSavingItemId(null);
+    }
+  };
+
+  const fields = (form?.schema_json?.fields ?? []) as FormField[];
+  const dropOff = summary ? summarizeDropOff(fields, summary.drop_off) : [];
+  const fieldSummaries = summary
+    ? fields.map(field => summarizeField(field, summary.fields.find(f => f.field_key === field.key), locale))
+    : [];
+  const volume = summary ? summarizeVolume(summary.volume, locale) : [];
+
+  const reviewItems: ReviewItem[] = uncertainItems.flatMap(item => {
+    const field = fields.find(f => f.key === item.field_key);
+    return field
+      ? [{ itemId: item.id, responseId: item.response_id, field, value: item.value_json, confidence: item.confidence! }]
+      : [];
+  });
+
+  // The queue is loaded a page at a time; the next page comes once this one has been reviewed
+  useEffect(() => {
+    if (!formId || reviewItems.length > 0 || !uncertainCursor) return;
+
+    const fetchNextUncertain = async () => {
+      try {
+        const page = await fetchUncertainItems(formId, uncertainCursor);
+        setUncertainItems(prev => [...prev, ...page.items]);
+        setUncertainTotal(uncertainItems.length + page.remaining);
+        setUncertainCursor(page.nextCursor);
+      } catch (error) {
+        console.error('Error fetching review queue:', error);
+        toast.error("Erro ao carregar a fila de revisão");
+      }
+    };
+
+    fetchNextUncertain();
+  }, [reviewItems.length, uncertainCursor]);
+
   if (loading) {
     return (
       <div className="container mx-auto p-4">
@@ -241,70 +541,175 @@ export default function FormResponses() {
           </Card>
         </div>
 
-        {/* Actions */}
-        <div className="flex justify-between items-center mb-6">
-          <h2 className="text-xl font-semibold">Respostas ({responses.length})</h2>
-          <Button onClick={exportToCSV} disabled={!responses.length}>
-            <Download className="w-4 h-4 mr-2" />
-            Exportar CSV
-          </Button>
-        </div>
+        <Tabs defaultValue="summary" className="w-full">
+          <TabsList className="mb-4">
+            <TabsTrigger value="summary">Resumo</TabsTrigger>
+            <TabsTrigger value="responses">Respostas ({stats.total})</TabsTrigger>
+          </TabsList>
 
-        {/* Responses List */}
-        {responses.length === 0 ? (
-          <Card className="p-8 text-center">
-            <p className="text-gray-600">Nenhuma resposta ainda.</p>
-          </Card>
-        ) : (
-          <div className="space-y-4">
-            {responses.map((response) => (
-              <Card key={response.id} className="p-4">
-                <div className="flex justify-between items-start mb-4">
-                  <div>
-                    <div className="flex items-center gap-2 mb-2">
-                      <Badge variant={response.status === 'submitted' ? 'default' : 'secondary'}>
-                        {response.status === 'submitted' ? 'Enviada' : 'Rascunho'}
-                      </Badge>
-                      {response.abandoned_at && (
-                        <Badge variant="destructive">Abandonada</Badge>
-                      )}
-                    </div>
-                    <p className="text-sm text-gray-600">
-                      Criada em: {new Date(response.created_at).toLocaleString('pt-BR')}
-                    </p>
-                    {response.updated_at !== response.created_at && (
-                      <p className="text-sm text-gray-600">
-                        Atualizada em: {new Date(response.updated_at).toLocaleString('pt-BR')}
-                      </p>
-                    )}
-                  </div>
-                  <div className="text-right">
-                    <p className="text-sm text-gray-600">ID: {response.id.slice(0, 8)}...</p>
-                  </div>
+          <TabsContent value="summary" className="space-y-6">
+            {!summary ? (
+              <Card className="p-8 text-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+                <p className="mt-4">Calculando resumo...</p>
+              </Card>
+            ) : stats.submitted === 0 ? (
+              <Card className="p-8 text-center">
+                <p className="text-gray-600">Nenhuma resposta enviada ainda.</p>
+              </Card>
+            ) : (
+              <>
+                <VolumeChart buckets={volume} />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {fieldSummaries.map((summary) => (
+                    <FieldSummaryCard key={summary.field.key} summary={summary} locale={locale} />
+                  ))}
                 </div>
+              </>
+            )}
 
-                <div className="grid gap-2">
-                  {form.schema_json?.fields?.map((field: any) => {
-                    const item = response.response_items.find(ri => ri.field_key === field.key);
-                    const value = item?.value_json;
-                    
-                    return (
-                      <div key={field.key} className="flex justify-between py-2 border-b border-gray-100 last:border-b-0">
-                        <span className="font-medium text-gray-700">{field.label}:</span>
-                        <span className="text-gray-900">
-                          {value !== undefined && value !== null && value !== '' 
-                            ? (Array.isArray(value) ? value.join(', ') : String(value))
-                            : <span className="text-gray-400 italic">Não preenchido</span>
-                          }
-                        </span>
-                      </div>
-                    );
-                  })}
-                </div>
+            {stats.total > 0 && dropOff.length > 0 && (
+              <DropOffFunnel rows={dropOff} total={stats.total} locale={locale} />
+            )}
+          </TabsContent>
+
+          <TabsContent value="responses">
+            {reviewItems.length > 0 && (
+              <ReviewQueue
+                items={reviewItems}
+                renderValue={renderValue}
+                onAccept={onAcceptItem}
+                onFix={onFixItem}
+                savingId={savingItemId}
+              />
+            )}
+            {uncertainTotal > reviewItems.length && (
+              <p className="text-sm text-gray-600 -mt-4 mb-6">
+                Mostrando {reviewItems.length} de {uncertainTotal} valores a revisar; os próximos aparecem conforme a fila é revisada.
+              </p>
+            )}
+
+            {/* Actions */}
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-xl font-semibold">Respostas ({stats.total})</h2>
+              <Button onClick={exportToCSV} disabled={!stats.total || exported !== null}>
+                <Download className="w-4 h-4 mr-2" />
+                {exported !== null ? `Exportando (${exported}/${stats.total})...` : 'Exportar CSV'}
+              </Button>
+            </div>
+
+            {/* Responses List */}
+            {responses.length === 0 ? (
+              <Card className="p-8 text-center">
+                <p className="text-gray-600">Nenhuma resposta ainda.</p>
               </Card>
-            ))}
-          </div>
-        )}
+            ) : (
+              <div className="space-y-4">
+                {responses.map((response) => {
+                  const isOpen = openIds.includes(response.id);
+                  const loaded = details[response.id];
+                  const transcript = loaded ? parseTranscript(loaded.turns) : [];
+                  return (
+                    <Card key={response.id} className="p-4">
+                      <div className={cn("flex justify-between items-start", isOpen && "mb-4")}>
+                        <div>
+                          <div className="flex items-center gap-2 mb-2">
+                            <Badge variant={response.status === 'submitted' ? 'default' : 'secondary'}>
+                              {response.status === 'submitted' ? 'Enviada' : 'Rascunho'}
+                            </Badge>
+                            {response.abandoned_at && (
+                              <Badge variant="destructive">Abandonada</Badge>
+                            )}
+                            {response.locale && (
+                              <Badge variant="outline">
+                                {isLocale(response.locale) ? LOCALE_NAMES[response.locale] : response.locale}
+                              </Badge>
+                            )}
+                          </div>
+                          <p className="text-sm text-gray-600">
+                            Criada em: {formatDateTime(response.created_at, locale)}
+                          </p>
+                          {response.updated_at !== response.created_at && (
+                            <p className="text-sm text-gray-600">
+                              Atualizada em: {formatDateTime(response.updated_at, locale)}
+                            </p>
+                          )}
+                        </div>
+                        <div className="text-right space-y-2">
+                          <p className="text-sm text-gray-600">ID: {response.id.slice(0, 8)}...</p>
+                          <Button variant="outline" size="sm" onClick={() => toggleDetails(response.id)}>
+                            <Eye className="w-4 h-4 mr-2" />
+                            {isOpen ? 'Ocultar' : 'Ver respostas'}
+                          </Button>
+                        </div>
+                      </div>
+
+                      {isOpen && !loaded && (
+                        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-900 mx-auto"></div>
+                      )}
+                      {isOpen && loaded && (
+                        <div className={transcript.length > 0 ? "grid gap-6 md:grid-cols-2" : undefined}>
+                          <div className="grid gap-2">
+                            {form.schema_json?.fields?.map((field: any) => {
+                              const item = loaded.items.find(ri => ri.field_key === field.key);
+                              const value = item?.value_json;
+                              const toReview = isUncertain(item?.confidence) && !item?.review;
+                        
+                              return (
+                                <div
+                                  key={field.key}
+                                  className={cn(
+                                    "flex justify-between py-2 border-b border-gray-100 last:border-b-0",
+                                    toReview && "bg-amber-50 px-2 rounded"
+                                  )}
+                                >
+                                  <span className="font-medium text-gray-700">
+                                    {field.label}:
+                                    {toReview && (
+                                      <span className="ml-2 text-xs font-normal text-amber-700">
+                                        confiança {Math.round(item!.confidence! * 100)}% · a revisar
+                                      </span>
+                                    )}
+                                    {item?.review && (
+                                      <span className="ml-2 text-xs font-normal text-gray-500">
+                                        {item.review === 'fixed' ? 'corrigido na revisão' : 'aceito na revisão'}
+                                      </span>
+                                    )}
+                                  </span>
+                                  <span className="text-gray-900">
+                                    {value !== undefined && value !== null && value !== '' 
+                                      ? renderValue(field, value)
+                                      : <span className="text-gray-400 italic">Não preenchido</span>
+                                    }
+                                  </span>
+                                </div>
+                              );
+                            })}
+                          </div>
+                          {transcript.length > 0 && (
+                            <div>
+                              <h3 className="font-medium text-gray-700 mb-2">Conversa ({transcript.length} mensagens)</h3>
+                              <div className="max-h-96 overflow-y-auto pr-1">
+                                <ChatTranscript turns={transcript} fields={form.schema_json?.fields ?? []} locale={locale} />
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </Card>
+                  );
+                })}
+                {nextCursor && (
+                  <div className="text-center">
+                    <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                      {loadingMore ? 'Carregando...' : `Carregar mais (${responses.length} de ${stats.total})`}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
@@ -0,0 +1,32 @@
+-- Where respondents stop and whether they gave up, decided in the database so closing the
+-- tab loses nothing. Needs the pg_cron extension (Dashboard → Database → Extensions).
+
+-- Last focused field and milliseconds spent on each field (app/lib/activity.ts), written
+-- through save_draft_session (drafts.sql)
+alter table sessions add column if not exists last_field_key text;
+alter table sessions add column if not exists field_times_json jsonb not null default '{}';
+
+-- Drafts idle for 30 minutes get abandoned_at; activity after that clears it again. Drafts
+-- without a session row (started offline, or never tracked) count from the response itself.
+create or replace function mark_abandoned_responses()
+returns void
+language sql
+as $$
+  with activity as (
+    select r.id, r.abandoned_at, coalesce(s.last_active_at, r.updated_at, r.created_at) as last_active_at
+    from responses r
+    left join sessions s on s.response_id = r.id
+    where r.status = 'draft'
+  )
+  update responses r
+  set abandoned_at = case when activity.abandoned_at is null then activity.last_active_at end
+  from activity
+  where r.id = activity.id
+    and (
+      (activity.abandoned_at is null and activity.last_active_at < now() - interval '30 minutes')
+      or activity.last_active_at > activity.abandoned_at
+    );
+$$;
+
+-- Every 5 minutes; scheduling again under the same name replaces the job
+select cron.schedule('mark-abandoned-responses', '*/5 * * * *', 'select mark_abandoned_responses()');
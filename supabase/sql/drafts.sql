@@ -0,0 +1,151 @@
+-- Respondents read and save drafts only through these functions, with the response id and
+-- the secret resume token handed to whoever started the draft (and kept in the resume link).
+-- They run with the rights of their owner (security definer), so respondents need no
+-- policies on responses, response_items or sessions themselves.
+
+alter table responses add column if not exists resume_token uuid;
+
+-- Starts a draft of a public form, or of any form for its owner. Drafts started offline pass
+-- the id and token generated in the browser; an existing row with that id is left untouched.
+create or replace function create_draft(p_form_id uuid, p_response_id uuid default null, p_token uuid default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid := coalesce(p_response_id, gen_random_uuid());
+  v_token uuid := coalesce(p_token, gen_random_uuid());
+begin
+  if not exists (select 1 from forms where id = p_form_id and (is_public or owner_id = auth.uid())) then
+    raise exception 'Form not found' using errcode = 'P0002';
+  end if;
+
+  insert into responses (id, form_id, status, resume_token)
+  values (v_id, p_form_id, 'draft', v_token)
+  on conflict (id) do nothing;
+
+  return jsonb_build_object('id', v_id, 'token', v_token);
+end;
+$$;
+
+-- The answers and chat transcript of a draft, or null once it is submitted or when the
+-- token does not match
+create or replace function load_draft(p_form_id uuid, p_response_id uuid, p_token uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'answers', coalesce((select jsonb_object_agg(field_key, value_json) from response_items where response_id = r.id), '{}'::jsonb),
+    'turns', (select turns_json from sessions where response_id = r.id)
+  )
+  from responses r
+  where r.id = p_response_id and r.form_id = p_form_id and r.status = 'draft' and r.resume_token = p_token;
+$$;
+
+-- Makes the items of a draft match p_items ([{field_key, value_json, valid, confidence}]):
+-- current answers are upserted and answers cleared since the last save are deleted
+create or replace function save_draft_items(p_response_id uuid, p_token uuid, p_items jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from responses where id = p_response_id and status = 'draft' and resume_token = p_token) then
+    -- A save retried after the draft was submitted changes nothing
+    if exists (select 1 from responses where id = p_response_id and resume_token = p_token) then
+      return;
+    end if;
+    raise exception 'Draft not found' using errcode = 'P0002';
+  end if;
+
+  insert into response_items (response_id, field_key, value_json, valid, confidence)
+  select p_response_id, i.field_key, i.value_json, i.valid, i.confidence
+  from jsonb_to_recordset(p_items) as i(field_key text, value_json jsonb, valid boolean, confidence double precision)
+  on conflict (response_id, field_key) do update
+    set value_json = excluded.value_json, valid = excluded.valid, confidence = excluded.confidence;
+
+  delete from response_items
+  where response_id = p_response_id
+    and field_key not in (select item->>'field_key' from jsonb_array_elements(p_items) item);
+end;
+$$;
+
+-- Creates or updates the session of a response; only the columns present in p_session
+-- (turns_json, last_field_key, field_times_json) change. Also accepted right after
+-- submitting, so the time on the last field is not lost. Returns the stored activity.
+create or replace function save_draft_session(p_response_id uuid, p_token uuid, p_session jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_session jsonb;
+begin
+  if not exists (select 1 from responses where id = p_response_id and resume_token = p_token) then
+    raise exception 'Draft not found' using errcode = 'P0002';
+  end if;
+
+  insert into sessions (response_id, turns_json, last_field_key, field_times_json, last_active_at)
+  values (
+    p_response_id,
+    coalesce(p_session->'turns_json', '[]'::jsonb),
+    p_session->>'last_field_key',
+    coalesce(p_session->'field_times_json', '{}'::jsonb),
+    now()
+  )
+  on conflict (response_id) do update set
+    turns_json = case when p_session ? 'turns_json' then excluded.turns_json else sessions.turns_json end,
+    last_field_key = case when p_session ? 'last_field_key' then excluded.last_field_key else sessions.last_field_key end,
+    field_times_json = case when p_session ? 'field_times_json' then excluded.field_times_json else sessions.field_times_json end,
+    last_active_at = now()
+  returning jsonb_build_object('last_field_key', sessions.last_field_key, 'field_times_json', sessions.field_times_json)
+  into v_session;
+
+  return v_session;
+end;
+$$;
+
+-- The only status change a respondent can make: from draft to submitted. Submitting again
+-- changes nothing, so a submission queued offline can be retried safely.
+create or replace function submit_draft(p_response_id uuid, p_token uuid, p_locale text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from responses where id = p_response_id and resume_token = p_token) then
+    raise exception 'Draft not found' using errcode = 'P0002';
+  end if;
+
+  update responses
+  set status = 'submitted',
+    locale = p_locale,
+    -- A draft that was marked abandoned and later finished is no longer abandoned
+    abandoned_at = null
+  where id = p_response_id and status = 'draft';
+end;
+$$;
+
+-- Respondents used to read and write drafts directly; that access now goes through the
+-- functions above, so anonymous policies on these tables are dropped and privileges revoked
+do $$
+declare
+  p record;
+begin
+  for p in
+    select policyname, tablename from pg_policies
+    where schemaname = 'public' and tablename in ('responses', 'response_items', 'sessions') and 'anon' = any(roles)
+  loop
+    execute format('drop policy %I on %I', p.policyname, p.tablename);
+  end loop;
+end;
+$$;
+
+revoke select, insert, update, delete on responses, response_items, sessions from anon;
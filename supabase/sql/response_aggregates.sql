@@ -0,0 +1,162 @@
+-- Aggregates for the responses page (app/lib/responseQueries.ts), so it never has to load
+-- every response to show totals, per-field summaries or the drop-off funnel.
+-- Both functions run with the caller's permissions: RLS still limits them to the owner's forms.
+
+-- Cursor listing (newest first) and the per-form scans below
+create index if not exists responses_form_created_idx on responses (form_id, created_at desc, id desc);
+create index if not exists responses_form_status_idx on responses (form_id, status);
+-- Review queue: only the few uncertain items not reviewed yet are indexed. Recreated because
+-- earlier versions indexed reviewed items too.
+drop index if exists response_items_uncertain_idx;
+create index response_items_uncertain_idx on response_items (response_id) where confidence < 0.7 and review is null;
+
+create or replace function response_stats(p_form_id uuid)
+returns jsonb
+language sql stable
+as $$
+  select jsonb_build_object(
+    'total', count(*),
+    'submitted', count(*) filter (where status = 'submitted'),
+    'abandoned', count(*) filter (where abandoned_at is not null)
+  )
+  from responses
+  where form_id = p_form_id;
+$$;
+
+-- Per-field aggregates of submitted answers, submissions per day (in p_time_zone) and the
+-- drop-off funnel of every started response. Fields are read from forms.schema_json.
+create or replace function form_summary(p_form_id uuid, p_time_zone text default 'UTC')
+returns jsonb
+language sql stable
+as $$
+  with fields as (
+    select f.field->>'key' as key, f.field->>'type' as type, f.position
+    from forms, jsonb_array_elements(forms.schema_json->'fields') with ordinality f(field, position)
+    where forms.id = p_form_id
+  ),
+  submitted as (
+    select id, updated_at from responses where form_id = p_form_id and status = 'submitted'
+  ),
+  items as (
+    select i.field_key, i.value_json, fields.type
+    from response_items i
+    join submitted on submitted.id = i.response_id
+    join fields on fields.key = i.field_key
+    where i.value_json is not null and i.value_json not in ('null'::jsonb, '""'::jsonb, '[]'::jsonb)
+  ),
+  answered as (
+    select field_key, count(*) as count from items group by field_key
+  ),
+  -- Each item of a list answer (multiselect) is counted on its own
+  value_counts as (
+    select field_key, jsonb_agg(jsonb_build_object('value', value, 'count', count)) as value_list
+    from (
+      select items.field_key, coalesce(e.value, items.value_json) as value, count(*) as count
+      from items
+      left join lateral jsonb_array_elements(
+        case when jsonb_typeof(items.value_json) = 'array' then items.value_json end
+      ) e on true
+      where items.type in ('select', 'radio', 'multiselect', 'checkbox', 'rating', 'nps', 'scale', 'slider', 'date')
+      group by 1, 2
+    ) counted
+    group by field_key
+  ),
+  numbers as (
+    select field_key, (value_json #>> '{}')::numeric as n
+    from items
+    where type in ('number', 'calculated') and jsonb_typeof(value_json) = 'number'
+  ),
+  number_stats as (
+    select field_key, avg(n) as mean, percentile_cont(0.5) within group (order by n) as median,
+      min(n) as min, max(n) as max, count(distinct n) <= 10 as exact
+    from numbers
+    group by field_key
+  ),
+  -- One bucket per value when there are at most 10 of them, otherwise 10 equal ranges
+  number_buckets as (
+    select field_key, jsonb_agg(jsonb_build_object('bucket', bucket, 'count', count) order by bucket) as buckets
+    from (
+      select numbers.field_key,
+        case when s.exact or s.min = s.max then n else least(width_bucket(n, s.min, s.max, 10), 10) end as bucket,
+        count(*) as count
+      from numbers
+      join number_stats s using (field_key)
+      group by 1, 2
+    ) bucketed
+    group by field_key
+  ),
+  volume as (
+    select jsonb_agg(jsonb_build_object('day', day, 'count', count) order by day) as days
+    from (
+      select (updated_at at time zone p_time_zone)::date as day, count(*) as count
+      from submitted
+      group by 1
+    ) per_day
+  ),
+  started as (
+    select r.id, r.status, r.abandoned_at, s.last_field_key, coalesce(s.field_times_json, '{}'::jsonb) as times
+    from responses r
+    left join sessions s on s.response_id = r.id
+    where r.form_id = p_form_id
+  ),
+  -- Fields each respondent answered, focused or stopped at
+  touched as (
+    select started.id, i.field_key from started join response_items i on i.response_id = started.id
+    union
+    select started.id, t.key from started, jsonb_object_keys(started.times) t(key)
+    union
+    select id, last_field_key from started where last_field_key is not null
+  ),
+  reached as (
+    select field_key, count(*) as count from touched group by field_key
+  ),
+  dropped as (
+    select last_field_key as field_key, count(*) as count
+    from started
+    where status = 'draft' and abandoned_at is not null and last_field_key is not null
+    group by 1
+  ),
+  field_times as (
+    select t.key as field_key, percentile_cont(0.5) within group (order by t.value::numeric) as median_ms,
+      avg(t.value::numeric) as average_ms
+    from started, jsonb_each(started.times) t
+    where jsonb_typeof(t.value) = 'number'
+    group by 1
+  )
+  select jsonb_build_object(
+    'volume', coalesce((select days from volume), '[]'::jsonb),
+    'fields', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'field_key', fields.key,
+        'answered', coalesce(answered.count, 0),
+        'values', value_counts.value_list,
+        'number', case when number_stats.field_key is null then null else jsonb_build_object(
+          'mean', number_stats.mean,
+          'median', number_stats.median,
+          'min', number_stats.min,
+          'max', number_stats.max,
+          'exact', number_stats.exact,
+          'buckets', number_buckets.buckets
+        ) end
+      ) order by fields.position)
+      from fields
+      left join answered on answered.field_key = fields.key
+      left join value_counts on value_counts.field_key = fields.key
+      left join number_stats on number_stats.field_key = fields.key
+      left join number_buckets on number_buckets.field_key = fields.key
+    ), '[]'::jsonb),
+    'drop_off', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'field_key', fields.key,
+        'reached', coalesce(reached.count, 0),
+        'dropped', coalesce(dropped.count, 0),
+        'median_ms', field_times.median_ms,
+        'average_ms', field_times.average_ms
+      ) order by fields.position)
+      from fields
+      left join reached on reached.field_key = fields.key
+      left join dropped on dropped.field_key = fields.key
+      left join field_times on field_times.field_key = fields.key
+    ), '[]'::jsonb)
+  );
+$$;
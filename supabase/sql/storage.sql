@@ -0,0 +1,36 @@
+-- Access to the private form-uploads bucket (app/lib/storage.ts). Files are stored under
+-- <response_id>/<resume_token>/<field_key>/..., so only whoever holds the draft's token
+-- can upload to it, and only while it is a draft.
+
+-- Whether an object path belongs to a draft whose token matches. Compared as text, so a
+-- path that does not start with two uuids simply does not match.
+create or replace function can_upload_response_file(p_name text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from responses
+    where id::text = split_part(p_name, '/', 1)
+      and resume_token::text = split_part(p_name, '/', 2)
+      and status = 'draft'
+  );
+$$;
+
+drop policy if exists "Respondents upload files to their drafts" on storage.objects;
+create policy "Respondents upload files to their drafts" on storage.objects
+  for insert
+  to anon, authenticated
+  with check (bucket_id = 'form-uploads' and public.can_upload_response_file(name));
+
+-- Owners open the files of responses to their forms (signed URLs on the responses page)
+drop policy if exists "Owners read uploads of their forms" on storage.objects;
+create policy "Owners read uploads of their forms" on storage.objects
+  for select
+  to authenticated
+  using (bucket_id = 'form-uploads' and exists (
+    select 1 from public.responses r join public.forms f on f.id = r.form_id
+    where r.id::text = split_part(name, '/', 1) and f.owner_id = auth.uid()
+  ));
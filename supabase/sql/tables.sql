@@ -0,0 +1,45 @@
+-- Columns, tables and constraints the app expects on top of the base schema
+-- (forms, responses, response_items, sessions). Safe to run more than once.
+
+-- Language the response was given in
+alter table responses add column if not exists locale text;
+
+-- Saved templates (home page gallery), private to their owner
+create table if not exists form_templates (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  description text,
+  schema_json jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+alter table form_templates enable row level security;
+
+drop policy if exists "Owners manage their templates" on form_templates;
+create policy "Owners manage their templates" on form_templates
+  for all
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+-- One session per response: the chat transcript is saved with an upsert on response_id
+create unique index if not exists sessions_response_id_key on sessions (response_id);
+
+-- One item per field: draft answers are autosaved with an upsert on (response_id, field_key)
+create unique index if not exists response_items_response_field_key on response_items (response_id, field_key);
+
+-- Owners accept or fix low-confidence values from the review queue. A fix rebuilds the
+-- response's items (calculated values, hidden fields), so it inserts and deletes too.
+alter table response_items add column if not exists review text check (review in ('accepted', 'fixed'));
+
+drop policy if exists "Owners review items of their forms" on response_items;
+create policy "Owners review items of their forms" on response_items
+  for all
+  using (exists (
+    select 1 from responses r join forms f on f.id = r.form_id
+    where r.id = response_items.response_id and f.owner_id = auth.uid()
+  ))
+  with check (exists (
+    select 1 from responses r join forms f on f.id = r.form_id
+    where r.id = response_items.response_id and f.owner_id = auth.uid()
+  ));